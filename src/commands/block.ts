@@ -4,18 +4,26 @@ import {
   getBlock,
   getBlockChildren,
   deleteBlock,
+  updateBlock,
 } from '../lib/client.js';
 import {
   DEFAULT_BATCH_SIZE,
   DEFAULT_DELAY_MS,
   appendBlockChildrenInBatches,
+  listAllBlockChildren,
   parseBatchSize,
   parseBlockChildrenInput,
   parseDelayMs,
 } from '../lib/blocks.js';
-import { getApiKey } from '../lib/config.js';
+import {
+  forgetArchivedItem,
+  getApiKey,
+  getArchivedItems,
+  MAX_ARCHIVED_ITEMS,
+  recordArchivedItem,
+} from '../lib/config.js';
 import { handleError, requireAuth } from '../lib/errors.js';
-import { output, outputLine, parseFieldsInput, extractBlockContent } from '../lib/output.js';
+import { output, outputLine, parseFieldsInput, extractBlockContent, extractParentId } from '../lib/output.js';
 import type { GlobalOptions, BlockObjectResponse } from '../types/index.js';
 import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
 
@@ -89,6 +97,8 @@ export function createBlockCommand(): Command {
     .option('-c, --content <text>', 'Content to append')
     .option('--type <type>', 'Block type (paragraph, heading_1, heading_2, heading_3, bulleted_list_item, numbered_list_item, to_do, toggle, quote, callout, code, divider)', 'paragraph')
     .option('--language <lang>', 'Language for code blocks', 'plain text')
+    .option('--icon <emoji>', 'Emoji icon for callout blocks', '💡')
+    .option('--color <color>', 'Color for callout blocks (e.g. gray_background, red)')
     .option('--children <json>', 'JSON array (or {"children":[...]}) of Notion blocks to append')
     .option('--children-file <path>', 'Path to JSON file with array (or {"children":[...]}) of Notion blocks')
     .option('--batch-size <number>', 'Max children per request (1-100)', String(DEFAULT_BATCH_SIZE))
@@ -96,6 +106,8 @@ export function createBlockCommand(): Command {
     .action(async (blockId: string, options: {
       content?: string;
       type?: string;
+      icon?: string;
+      color?: string;
       language?: string;
       children?: string;
       childrenFile?: string;
@@ -131,7 +143,7 @@ export function createBlockCommand(): Command {
             process.exit(1);
           }
 
-          children = [createBlock(blockType, options.content, options.language)];
+          children = [createBlock(blockType, options.content, options.language, { icon: options.icon, color: options.color })];
         }
 
         const batchSize = parseBatchSize(options.batchSize, DEFAULT_BATCH_SIZE);
@@ -223,7 +235,43 @@ export function createBlockCommand(): Command {
         }
 
         await deleteBlock(blockId, apiKey, globalOpts.config);
+        recordArchivedItem({
+          id: blockData.id,
+          object: 'block',
+          type: blockData.type,
+          parent_id: extractParentId(blockData),
+          title: truncate(extractBlockContent(blockData), 60),
+          archived_at: new Date().toISOString(),
+        }, globalOpts.config);
+
         console.log(chalk.green('✓'), 'Block deleted successfully.');
+        console.log(`${chalk.cyan('Restore with:')} onotion block restore ${blockData.id}`);
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  block
+    .command('restore <block-id>')
+    .description('Restore an archived block')
+    .action(async (blockId: string) => {
+      const globalOpts = block.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const restored = await updateBlock(blockId, { archived: false }, apiKey, globalOpts.config) as BlockObjectResponse;
+        forgetArchivedItem(blockId, globalOpts.config);
+
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat !== 'table') {
+          output(restored, outputFormat, { fields: globalOpts.fields });
+          return;
+        }
+
+        console.log(chalk.green('✓'), `Block restored (${restored.type}).`);
 
       } catch (error) {
         handleError(error, globalOpts.verbose);
@@ -234,7 +282,12 @@ export function createBlockCommand(): Command {
     .command('list <parent-id>')
     .description('List all child blocks of a page or block')
     .option('--depth <number>', 'Depth of nested blocks to fetch', '1')
-    .action(async (parentId: string, options: { depth?: string }) => {
+    .option(
+      '--list-archived',
+      `List archived children instead of the current ones: those the API still lists as archived or in trash, ` +
+      `plus the last ${MAX_ARCHIVED_ITEMS} this CLI archived on this machine (kept in the local config)`
+    )
+    .action(async (parentId: string, options: { depth?: string; listArchived?: boolean }) => {
       const globalOpts = block.optsWithGlobals<GlobalOptions>();
 
       try {
@@ -245,6 +298,31 @@ export function createBlockCommand(): Command {
         const outputFormat = globalOpts.output || 'table';
         const fields = parseFieldsInput(globalOpts.fields);
 
+        if (options.listArchived) {
+          const archived = await fetchArchivedChildren(parentId, apiKey, globalOpts.config);
+
+          if (outputFormat !== 'table' || fields) {
+            output(archived, outputFormat, { fields: globalOpts.fields });
+            return;
+          }
+
+          const note = `Blocks archived elsewhere only show up if the API still lists them; ` +
+            `the local record holds the last ${MAX_ARCHIVED_ITEMS} archived from this machine.`;
+          if (archived.length === 0) {
+            console.log(chalk.yellow('No archived blocks found.'));
+            console.log(chalk.gray(note));
+            return;
+          }
+
+          console.log(chalk.bold(`\nArchived blocks (${archived.length}):\n`));
+          for (const block of archived) {
+            printBlockTree(block, 0);
+          }
+          console.log(chalk.gray(note));
+          console.log(chalk.gray('Restore with: onotion block restore <block-id> (or onotion page restore <page-id>)'));
+          return;
+        }
+
         if (globalOpts.stream) {
           if (outputFormat !== 'json' && outputFormat !== 'compact') {
             console.error(chalk.red('Error: --stream is only supported with -o json or -o compact.'));
@@ -303,6 +381,43 @@ async function fetchAllBlockChildren(
   return blocks;
 }
 
+// The API never lists archived children, so this looks up the blocks and
+// pages archived from the CLI under parentId. Ones restored in Notion since
+// are dropped from the record; ones that can no longer be fetched are skipped.
+// Children the API lists as archived or in trash (trashed sub-pages, for
+// example), then those recorded in the local config when this CLI archived
+// them. The record only covers this machine.
+async function fetchArchivedChildren(
+  parentId: string,
+  apiKey: string,
+  configPath?: string
+): Promise<BlockObjectResponse[]> {
+  const parent = compactId(parentId);
+  const blocks = (await listAllBlockChildren(parentId, apiKey, configPath)).filter(
+    (child) => child.archived || (child as { in_trash?: boolean }).in_trash
+  );
+  const seen = new Set(blocks.map((child) => compactId(child.id)));
+
+  for (const item of getArchivedItems(configPath)) {
+    if (!item.parent_id || compactId(item.parent_id) !== parent || seen.has(compactId(item.id))) continue;
+
+    let blockData: BlockObjectResponse;
+    try {
+      blockData = await getBlock(item.id, apiKey, configPath) as BlockObjectResponse;
+    } catch {
+      continue;
+    }
+
+    if (blockData.archived) {
+      blocks.push(blockData);
+    } else {
+      forgetArchivedItem(item.id, configPath);
+    }
+  }
+
+  return blocks;
+}
+
 async function streamBlockChildren(
   blockId: string,
   _depth: number,
@@ -342,6 +457,14 @@ function printBlockTree(block: BlockObjectResponse, indent: number): void {
   console.log('');
 }
 
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 3) + '...' : text;
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', {
@@ -353,7 +476,12 @@ function formatDate(dateString: string): string {
   });
 }
 
-function createBlock(type: string, content: string, language?: string): BlockObjectRequest {
+function createBlock(
+  type: string,
+  content: string,
+  language?: string,
+  callout: { icon?: string; color?: string } = {}
+): BlockObjectRequest {
   const richText = [{ type: 'text' as const, text: { content } }];
 
   switch (type) {
@@ -374,7 +502,15 @@ function createBlock(type: string, content: string, language?: string): BlockObj
     case 'quote':
       return { object: 'block', type: 'quote', quote: { rich_text: richText } };
     case 'callout':
-      return { object: 'block', type: 'callout', callout: { rich_text: richText } };
+      return {
+        object: 'block',
+        type: 'callout',
+        callout: {
+          rich_text: richText,
+          icon: { type: 'emoji', emoji: (callout.icon || '💡') as '💡' },
+          ...(callout.color ? { color: callout.color as 'default' } : {}),
+        },
+      };
     case 'code':
       return {
         object: 'block',
@@ -1,11 +1,53 @@
+import { readFileSync, writeFileSync } from 'node:fs';
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { listDatabases, getDatabase, queryDatabase, createDatabase } from '../lib/client.js';
+import { parse as parseYaml } from 'yaml';
+import { listDatabases, getDatabase, queryDatabase, createDatabase, updateDatabase } from '../lib/client.js';
+import { listAllUsers } from '../lib/mentions.js';
+import {
+  exportDatabaseRows,
+  formatRows,
+  importDatabaseRows,
+  parseConcurrency,
+  parseRate,
+  parseRowFile,
+  rowFileFormat,
+  type ColumnMap,
+  type RowFileFormat,
+  type RowFormat,
+} from '../lib/rows.js';
+import {
+  addOptions,
+  addProperty,
+  formatSchemaChanges,
+  removeOptions,
+  removeProperty,
+  renameOption,
+  renameProperty,
+  setPropertyType,
+  type PropertyConfigOptions,
+  type SchemaUpdate,
+} from '../lib/schema.js';
+import { matchPeople } from '../lib/setters.js';
+import { parseSortSpec, planDatabaseSort, sortPages, type SortPlan } from '../lib/sort.js';
+import { toList } from '../lib/properties.js';
+import { compileWhereNode, findUserReferences, parseWhere } from '../lib/where.js';
 import { getApiKey, getDefaultDatabase, setDefaultDatabase } from '../lib/config.js';
 import { handleError, requireAuth } from '../lib/errors.js';
-import { output, outputLine, parseFieldsInput, success, extractDatabaseTitle } from '../lib/output.js';
-import type { GlobalOptions, DatabaseObjectResponse, PageObjectResponse } from '../types/index.js';
+import { output, outputLine, parseFieldsInput, success, warn, extractDatabaseTitle } from '../lib/output.js';
+import type { QueryDatabaseParameters } from '@notionhq/client/build/src/api-endpoints';
+import type {
+  GlobalOptions,
+  DatabaseFilter,
+  DatabaseObjectResponse,
+  PageObjectResponse,
+  QueryDatabaseResponse,
+  SortOption,
+} from '../types/index.js';
+
+const ROW_FORMATS: RowFormat[] = ['csv', 'tsv', 'ndjson'];
+const ROW_FILE_FORMATS: RowFileFormat[] = ['csv', 'tsv', 'jsonl'];
 
 export function createDatabaseCommand(): Command {
   const db = new Command('db')
@@ -63,12 +105,16 @@ export function createDatabaseCommand(): Command {
     .command('query <database-id>')
     .description('Query a database with optional filters')
     .option('-f, --filter <json>', 'Filter in JSON format')
+    .option('-w, --where <expression>', 'Filter expression, e.g. \'Status = "Done" and Due < today\'')
     .option('-s, --sort <json>', 'Sort in JSON format')
+    .option('--sort-by <keys>', 'Sort keys, e.g. "Priority:desc,Due:asc,@last_edited:desc"')
     .option('-l, --limit <number>', 'Maximum number of results', '100')
     .option('--start-cursor <cursor>', 'Pagination cursor')
     .action(async (databaseId: string, options: {
       filter?: string;
+      where?: string;
       sort?: string;
+      sortBy?: string;
       limit?: string;
       startCursor?: string;
     }) => {
@@ -84,10 +130,25 @@ export function createDatabaseCommand(): Command {
           : databaseId;
 
         const queryOptions: {
-          filter?: unknown;
-          sorts?: unknown[];
+          filter?: DatabaseFilter;
+          sorts?: QueryDatabaseParameters['sorts'];
         } = {};
 
+        if (options.filter && options.where) {
+          throw new Error('Use either --filter or --where, not both.');
+        }
+        if (options.sort && options.sortBy) {
+          throw new Error('Use either --sort or --sort-by, not both.');
+        }
+
+        const database = options.where || options.sortBy
+          ? await getDatabase(resolvedId, apiKey, globalOpts.config) as DatabaseObjectResponse
+          : undefined;
+
+        if (options.where && database) {
+          queryOptions.filter = await compileWhereFilter(options.where, database, apiKey, globalOpts.config);
+        }
+
         if (options.filter) {
           try {
             queryOptions.filter = JSON.parse(options.filter);
@@ -107,6 +168,20 @@ export function createDatabaseCommand(): Command {
           }
         }
 
+        let sortPlan: SortPlan | undefined;
+        if (options.sortBy && database) {
+          sortPlan = planDatabaseSort(parseSortSpec(options.sortBy), database.properties);
+          if (sortPlan.clientSide && options.startCursor) {
+            throw new Error(
+              `Notion cannot sort by ${sortPlan.localKeys.join(', ')}, so every result is fetched and sorted locally. ` +
+              'That does not work with --start-cursor.'
+            );
+          }
+          if (!sortPlan.clientSide) {
+            queryOptions.sorts = sortPlan.sorts;
+          }
+        }
+
         const outputFormat = globalOpts.output || 'table';
         const fields = parseFieldsInput(globalOpts.fields);
         const limitValue = options.limit ? parseInt(options.limit, 10) : 100;
@@ -118,6 +193,16 @@ export function createDatabaseCommand(): Command {
             process.exit(1);
           }
 
+          if (sortPlan?.clientSide) {
+            const sorted = await querySortedLocally(
+              resolvedId, queryOptions.filter, sortPlan.sorts, totalLimit, apiKey, globalOpts.config
+            );
+            for (const page of sorted.results) {
+              outputLine(page, outputFormat, globalOpts.fields);
+            }
+            return;
+          }
+
           let remaining = totalLimit;
           let cursor = options.startCursor;
 
@@ -149,16 +234,18 @@ export function createDatabaseCommand(): Command {
           return;
         }
 
-        const response = await queryDatabase(
-          resolvedId,
-          {
-            ...queryOptions,
-            page_size: Math.min(totalLimit, 100),
-            start_cursor: options.startCursor,
-          },
-          apiKey,
-          globalOpts.config
-        );
+        const response = sortPlan?.clientSide
+          ? await querySortedLocally(resolvedId, queryOptions.filter, sortPlan.sorts, totalLimit, apiKey, globalOpts.config)
+          : await queryDatabase(
+            resolvedId,
+            {
+              ...queryOptions,
+              page_size: Math.min(totalLimit, 100),
+              start_cursor: options.startCursor,
+            },
+            apiKey,
+            globalOpts.config
+          );
 
         const pages = response.results.filter(
           (r): r is PageObjectResponse => r.object === 'page'
@@ -251,6 +338,170 @@ export function createDatabaseCommand(): Command {
       }
     });
 
+  db
+    .command('export <database-id>')
+    .description('Export every row to CSV, TSV or NDJSON, one column per property')
+    .option('-f, --format <format>', 'csv, tsv or ndjson', 'csv')
+    .option('--out <file>', 'Output file (default: stdout)')
+    .option('-w, --where <expression>', 'Only rows matching a filter expression (see db query --where)')
+    .option('--list-delimiter <text>', 'Separator for multi-select, people, relation and file cells (entries containing it are quoted)', ', ')
+    .option('--relations <mode>', 'Relations as ids or titles', 'ids')
+    .action(async (databaseId: string, options: {
+      format: string;
+      out?: string;
+      where?: string;
+      listDelimiter: string;
+      relations: string;
+    }) => {
+      const globalOpts = db.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        if (!ROW_FORMATS.includes(options.format as RowFormat)) {
+          throw new Error(`Invalid format "${options.format}". Use ${ROW_FORMATS.join(', ')}.`);
+        }
+        if (options.relations !== 'ids' && options.relations !== 'titles') {
+          throw new Error(`Invalid --relations "${options.relations}". Use ids or titles.`);
+        }
+
+        const resolvedId = databaseId === 'default'
+          ? getDefaultDatabase(globalOpts.config) || databaseId
+          : databaseId;
+
+        const filter = options.where
+          ? await compileWhereFilter(
+            options.where,
+            await getDatabase(resolvedId, apiKey, globalOpts.config) as DatabaseObjectResponse,
+            apiKey,
+            globalOpts.config
+          )
+          : undefined;
+
+        const rows = await exportDatabaseRows(
+          resolvedId,
+          { filter, relations: options.relations },
+          apiKey,
+          globalOpts.config
+        );
+        const text = formatRows(rows, options.format as RowFormat, options.listDelimiter);
+
+        if (!options.out) {
+          process.stdout.write(text);
+          return;
+        }
+
+        writeFileSync(options.out, text);
+        if (globalOpts.output === 'json') {
+          output({ file: options.out, format: options.format, rows: rows.rows.length, columns: rows.columns.length }, 'json');
+        } else {
+          success(`Exported ${rows.rows.length} row(s) to ${options.out}`);
+        }
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  db
+    .command('import <database-id> <file>')
+    .description('Create pages from CSV, TSV or JSONL rows, one column per property')
+    .option('-f, --format <format>', 'csv, tsv or jsonl (default: from the file extension)')
+    .option('--map <file>', 'JSON or YAML object of column → property (null skips a column)')
+    .option('--list-delimiter <text>', 'Separator for multi-select, people, relation and file cells', ',')
+    .option('--upsert-key <property>', 'Update the page whose property matches instead of creating one ("id" for page IDs, "_id" if a property is named id)')
+    .option('--dry-run', 'Validate every row and show what would change without writing')
+    .option('--skip-invalid', 'Import the valid rows even when some rows have errors')
+    .option('--concurrency <number>', 'Requests in flight at once', '3')
+    .option('--rate <number>', 'Maximum requests per second', '3')
+    .action(async (databaseId: string, file: string, options: {
+      format?: string;
+      map?: string;
+      listDelimiter: string;
+      upsertKey?: string;
+      dryRun?: boolean;
+      skipInvalid?: boolean;
+      concurrency?: string;
+      rate?: string;
+    }) => {
+      const globalOpts = db.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const format = (options.format ?? rowFileFormat(file)) as RowFileFormat;
+        if (!ROW_FILE_FORMATS.includes(format)) {
+          throw new Error(`Invalid format "${options.format}". Use ${ROW_FILE_FORMATS.join(', ')}.`);
+        }
+
+        const resolvedId = databaseId === 'default'
+          ? getDefaultDatabase(globalOpts.config) || databaseId
+          : databaseId;
+
+        const outputFormat = globalOpts.output || 'table';
+        const showProgress = outputFormat === 'table' && process.stderr.isTTY;
+        const rows = parseRowFile(readFileSync(file, 'utf8'), format);
+
+        const result = await importDatabaseRows(
+          resolvedId,
+          rows,
+          {
+            map: options.map ? readColumnMap(options.map) : undefined,
+            listDelimiter: options.listDelimiter,
+            upsertKey: options.upsertKey,
+            dryRun: options.dryRun,
+            skipInvalid: options.skipInvalid,
+            concurrency: parseConcurrency(options.concurrency),
+            rate: parseRate(options.rate),
+            onProgress: showProgress
+              ? (done, total) => process.stderr.write(`\r${done}/${total} row(s)${done === total ? '\n' : ''}`)
+              : undefined,
+          },
+          apiKey,
+          globalOpts.config
+        );
+
+        const count = (action: string, status: string) =>
+          result.results.filter((row) => row.action === action && row.status === status).length;
+        const failed = result.results.filter((row) => row.status === 'failed');
+
+        if (outputFormat !== 'table') {
+          output(
+            { dry_run: Boolean(options.dryRun), errors: result.errors, warnings: result.warnings, results: result.results },
+            outputFormat,
+            { fields: globalOpts.fields }
+          );
+        } else {
+          for (const message of result.warnings) {
+            warn(message);
+          }
+          for (const row of [...result.errors, ...failed.map((f) => ({ line: f.line, message: f.error }))]) {
+            console.error(chalk.red(`${file}:${row.line}: ${row.message}`));
+          }
+
+          if (options.dryRun) {
+            success(
+              `Dry run: ${count('create', 'planned')} row(s) would be created and ${count('update', 'planned')} updated; ` +
+              `${result.errors.length} invalid.`
+            );
+          } else if (result.results.length === 0 && result.errors.length > 0) {
+            console.error(chalk.red(`${result.errors.length} invalid row(s); nothing was imported. Fix them or pass --skip-invalid.`));
+          } else {
+            success(`Imported ${count('create', 'done')} new and ${count('update', 'done')} updated row(s).`);
+          }
+        }
+
+        if (result.errors.length > 0 || failed.length > 0) {
+          process.exitCode = 1;
+        }
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
   db
     .command('create')
     .description('Create a new database')
@@ -303,5 +554,219 @@ export function createDatabaseCommand(): Command {
       }
     });
 
+  const property = db
+    .command('property')
+    .description('Add, rename, remove or retype database properties');
+
+  property
+    .command('add <database-ids> <name> <type>')
+    .description('Add a property (database IDs can be comma-separated)')
+    .option('--options <names>', 'Comma-separated options for select/multi_select')
+    .option('--color <color>', 'Color for the new options')
+    .option('--format <format>', 'Number format, e.g. number, dollar, percent')
+    .option('--expression <formula>', 'Formula expression')
+    .option('--relation-database <id>', 'Database a relation points to')
+    .action(async (databaseIds: string, name: string, type: string, options: SchemaCommandOptions) => {
+      await applySchemaUpdate(db, databaseIds, options, (schema) => addProperty(schema, name, type, configOptions(options)));
+    });
+
+  property
+    .command('rename <database-ids> <name> <new-name>')
+    .description('Rename a property')
+    .action(async (databaseIds: string, name: string, newName: string) => {
+      await applySchemaUpdate(db, databaseIds, {}, (schema) => renameProperty(schema, name, newName));
+    });
+
+  property
+    .command('remove <database-ids> <name>')
+    .description('Remove a property and its values')
+    .option('--force', 'Skip confirmation')
+    .action(async (databaseIds: string, name: string, options: SchemaCommandOptions) => {
+      await applySchemaUpdate(db, databaseIds, options, (schema) => removeProperty(schema, name));
+    });
+
+  property
+    .command('set-type <database-ids> <name> <type>')
+    .description('Change the type of a property (values may be converted or lost)')
+    .option('--options <names>', 'Comma-separated options for select/multi_select')
+    .option('--color <color>', 'Color for the new options')
+    .option('--format <format>', 'Number format, e.g. number, dollar, percent')
+    .option('--expression <formula>', 'Formula expression')
+    .option('--relation-database <id>', 'Database a relation points to')
+    .option('--force', 'Skip confirmation')
+    .action(async (databaseIds: string, name: string, type: string, options: SchemaCommandOptions) => {
+      await applySchemaUpdate(db, databaseIds, options, (schema) => setPropertyType(schema, name, type, configOptions(options)));
+    });
+
+  const propertyOptions = db
+    .command('options')
+    .description('Add, rename or remove select and multi_select options');
+
+  propertyOptions
+    .command('add <database-ids> <property> <names...>')
+    .description('Add options')
+    .option('--color <color>', 'Option color: default, gray, brown, orange, yellow, green, blue, purple, pink, red')
+    .action(async (databaseIds: string, name: string, names: string[], options: SchemaCommandOptions) => {
+      await applySchemaUpdate(db, databaseIds, options, (schema) => addOptions(schema, name, names, options.color));
+    });
+
+  propertyOptions
+    .command('rename <database-ids> <property> <option> <new-name>')
+    .description('Rename an option; pages keep it under the new name')
+    .action(async (databaseIds: string, name: string, option: string, newName: string) => {
+      await applySchemaUpdate(db, databaseIds, {}, (schema) => renameOption(schema, name, option, newName));
+    });
+
+  propertyOptions
+    .command('remove <database-ids> <property> <names...>')
+    .description('Remove options and clear them on every page')
+    .option('--force', 'Skip confirmation')
+    .action(async (databaseIds: string, name: string, names: string[], options: SchemaCommandOptions) => {
+      await applySchemaUpdate(db, databaseIds, options, (schema) => removeOptions(schema, name, names));
+    });
+
   return db;
 }
+
+interface SchemaCommandOptions {
+  options?: string;
+  color?: string;
+  format?: string;
+  expression?: string;
+  relationDatabase?: string;
+  force?: boolean;
+}
+
+function configOptions(options: SchemaCommandOptions): PropertyConfigOptions {
+  return {
+    options: options.options ? toList(options.options) : undefined,
+    color: options.color,
+    format: options.format,
+    expression: options.expression,
+    relationDatabase: options.relationDatabase,
+  };
+}
+
+// Builds the change for every database first, so a property missing in one
+// of them stops the command before anything is written. Destructive changes
+// are confirmed unless --force is given.
+async function applySchemaUpdate(
+  db: Command,
+  databaseIds: string,
+  options: SchemaCommandOptions,
+  build: (schema: DatabaseObjectResponse['properties']) => SchemaUpdate
+): Promise<void> {
+  const globalOpts = db.optsWithGlobals<GlobalOptions>();
+
+  try {
+    const apiKey = getApiKey(globalOpts.config);
+    requireAuth(apiKey);
+
+    const outputFormat = globalOpts.output || 'table';
+    const updates: Array<{ database: DatabaseObjectResponse; update: SchemaUpdate }> = [];
+
+    for (const id of toList(databaseIds)) {
+      const resolvedId = id === 'default' ? getDefaultDatabase(globalOpts.config) || id : id;
+      const database = await getDatabase(resolvedId, apiKey, globalOpts.config) as DatabaseObjectResponse;
+      try {
+        updates.push({ database, update: build(database.properties) });
+      } catch (error) {
+        throw new Error(`${extractDatabaseTitle(database)}: ${(error as Error).message}`);
+      }
+    }
+
+    const destructive = updates.some(({ update }) => update.changes.some((change) => change.destructive));
+
+    if (outputFormat === 'table' || (destructive && !options.force)) {
+      for (const { database, update } of updates) {
+        console.log(`${chalk.bold(extractDatabaseTitle(database))} ${chalk.gray(database.id)}`);
+        for (const line of formatSchemaChanges(update.changes)) {
+          console.log(`  ${line.startsWith('!') ? chalk.red(line) : line}`);
+        }
+      }
+    }
+
+    if (destructive && !options.force) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Changes marked ! remove or convert values on existing pages. Apply them?',
+          default: false,
+        },
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.gray('Cancelled.'));
+        return;
+      }
+    }
+
+    const results: DatabaseObjectResponse[] = [];
+    for (const { database, update } of updates) {
+      results.push(await updateDatabase(
+        database.id,
+        { properties: update.properties },
+        apiKey,
+        globalOpts.config
+      ) as DatabaseObjectResponse);
+    }
+
+    if (outputFormat === 'table') {
+      success(`Updated ${results.length} database(s).`);
+    } else {
+      output(results, outputFormat, { fields: globalOpts.fields });
+    }
+
+  } catch (error) {
+    handleError(error, globalOpts.verbose);
+  }
+}
+
+function readColumnMap(file: string): ColumnMap {
+  const map = parseYaml(readFileSync(file, 'utf8')) as unknown;
+  if (typeof map !== 'object' || map === null || Array.isArray(map)
+    || Object.values(map).some((value) => value !== null && typeof value !== 'string')) {
+    throw new Error(`--map ${file} must be an object of "Column": "Property" (or null to skip a column).`);
+  }
+  return map as ColumnMap;
+}
+
+// Compiles a --where expression against the database schema, looking up
+// people given by email or name
+async function compileWhereFilter(
+  expression: string,
+  database: DatabaseObjectResponse,
+  apiKey?: string,
+  configPath?: string
+): Promise<DatabaseFilter> {
+  const where = parseWhere(expression);
+  const people = findUserReferences(where, database.properties);
+  const users = people.length > 0
+    ? matchPeople(people, await listAllUsers(apiKey, configPath))
+    : undefined;
+  return compileWhereNode(where, expression, database.properties, { users });
+}
+
+// Fetches every page that matches the filter and sorts them here, for sort
+// keys Notion cannot handle. The result is shaped like a single query page.
+async function querySortedLocally(
+  databaseId: string,
+  filter: DatabaseFilter | undefined,
+  sorts: SortOption[],
+  limit: number,
+  apiKey?: string,
+  configPath?: string
+): Promise<QueryDatabaseResponse> {
+  const pages: PageObjectResponse[] = [];
+  let last: QueryDatabaseResponse;
+  let cursor: string | undefined;
+
+  do {
+    last = await queryDatabase(databaseId, { filter, start_cursor: cursor, page_size: 100 }, apiKey, configPath);
+    pages.push(...last.results.filter((r): r is PageObjectResponse => r.object === 'page'));
+    cursor = last.has_more ? last.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return { ...last, results: sortPages(pages, sorts).slice(0, limit), has_more: false, next_cursor: null };
+}
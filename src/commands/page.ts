@@ -1,25 +1,62 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, extname, join } from 'node:path';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import {
   getPage,
-  createPage,
+  getDatabase,
   updatePage,
   archivePage,
-  getBlockChildren,
+  deleteBlock,
 } from '../lib/client.js';
 import {
   DEFAULT_BATCH_SIZE,
   DEFAULT_DELAY_MS,
   appendBlockChildrenInBatches,
+  createPageWithChildren,
+  fetchBlockTree,
+  listAllBlockChildren,
   parseBatchSize,
   parseBlockChildrenInput,
   parseDelayMs,
+  parseDepth,
 } from '../lib/blocks.js';
-import { getApiKey } from '../lib/config.js';
+import { forgetArchivedItem, getApiKey, recordArchivedItem } from '../lib/config.js';
 import { handleError, requireAuth } from '../lib/errors.js';
-import { markdownToBlocks } from '../lib/markdown.js';
-import { output, parseFieldsInput, success, extractBlockContent, extractPageTitle } from '../lib/output.js';
-import type { GlobalOptions, PageObjectResponse, BlockObjectResponse } from '../types/index.js';
+import { duplicatePage } from '../lib/duplicate.js';
+import { applyEditPlan, planPageEdit, planPageReplace, renderEditableDocument } from '../lib/edit.js';
+import { expandPageProperties, expandPageProperty, formatExpandedValue } from '../lib/expand.js';
+import { exportPageTree, MANIFEST_FILE } from '../lib/export.js';
+import { collectMarkdownFiles, readStdin } from '../lib/files.js';
+import { blocksToHtml, renderHtmlDocument } from '../lib/html.js';
+import { parseFrontMatter } from '../lib/frontmatter.js';
+import { buildPageFromDocument, findPeopleReferences } from '../lib/import.js';
+import { blocksToMarkdown } from '../lib/markdown.js';
+import { listAllUsers, markdownToBlocksWithMentions, resolveMentionLookup } from '../lib/mentions.js';
+import { movePageByRecreation } from '../lib/move.js';
+import { matchPeople, PAGE_SCHEMA, resolvePropertySetters } from '../lib/setters.js';
+import { buildPageFromTemplate, parseTemplateVariables } from '../lib/template.js';
+import { fetchPageTree, formatTree } from '../lib/tree.js';
+import {
+  output,
+  parseFieldsInput,
+  success,
+  info,
+  warn,
+  extractBlockContent,
+  extractPageTitle,
+  extractParentId,
+  formatPageDetail,
+} from '../lib/output.js';
+import type {
+  GlobalOptions,
+  PageObjectResponse,
+  BlockObjectResponse,
+  DatabaseObjectResponse,
+  UserObjectResponse,
+} from '../types/index.js';
 import type { CreatePageParameters, BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
 
 export function createPageCommand(): Command {
@@ -30,8 +67,17 @@ export function createPageCommand(): Command {
     .command('get <page-id>')
     .description('Get page details and content')
     .option('--content', 'Include page content (blocks)')
-    .option('--depth <number>', 'Depth of nested blocks to fetch', '1')
-    .action(async (pageId: string, options: { content?: boolean; depth?: string }) => {
+    .option('--depth <number>', 'Depth of nested blocks to fetch (default: 1, or all levels with -o markdown/html)')
+    .option('--standalone', 'With -o html, output a complete HTML document with a stylesheet')
+    .option('--property <name>', 'Only show the complete value of one property')
+    .option('--expand-properties', 'Show complete property values (all relations, people, files and rollup items)')
+    .action(async (pageId: string, options: {
+      content?: boolean;
+      depth?: string;
+      standalone?: boolean;
+      property?: string;
+      expandProperties?: boolean;
+    }) => {
       const globalOpts = page.optsWithGlobals<GlobalOptions>();
 
       try {
@@ -43,26 +89,74 @@ export function createPageCommand(): Command {
         const outputFormat = globalOpts.output || 'table';
         const fields = parseFieldsInput(globalOpts.fields);
 
+        if (options.property) {
+          const expanded = await expandPageProperty(pageData, options.property, apiKey, globalOpts.config);
+          if (outputFormat !== 'table' || fields) {
+            output(expanded, outputFormat, { fields: globalOpts.fields });
+            return;
+          }
+
+          console.log(chalk.bold(`${expanded.name} ${chalk.gray(`(${expanded.type})`)}`));
+          for (const line of formatExpandedValue(expanded)) {
+            console.log(`  ${line}`);
+          }
+          return;
+        }
+
+        if (outputFormat === 'markdown') {
+          const depth = parseDepth(options.depth, Infinity);
+          const blocks = await fetchBlockTree(pageId, depth, apiKey, globalOpts.config);
+          process.stdout.write(`# ${extractPageTitle(pageData)}\n\n${blocksToMarkdown(blocks)}`);
+          return;
+        }
+
+        if (outputFormat === 'html') {
+          const depth = parseDepth(options.depth, Infinity);
+          const blocks = await fetchBlockTree(pageId, depth, apiKey, globalOpts.config);
+          const html = blocksToHtml(blocks);
+          process.stdout.write(options.standalone ? renderHtmlDocument(extractPageTitle(pageData), html) : html);
+          return;
+        }
+
+        const expanded = options.expandProperties
+          ? await expandPageProperties(pageData, apiKey, globalOpts.config)
+          : undefined;
+
         if (outputFormat !== 'table' || fields) {
-          const result: { page: PageObjectResponse; blocks?: BlockObjectResponse[] } = { page: pageData };
+          const result: {
+            page: PageObjectResponse;
+            properties?: Record<string, unknown>;
+            blocks?: BlockObjectResponse[];
+          } = { page: pageData };
+
+          if (expanded) {
+            result.properties = Object.fromEntries(expanded.map((property) => [property.name, property.value]));
+          }
 
           if (options.content) {
-            const blocks = await fetchAllBlocks(pageId, parseInt(options.depth || '1', 10), apiKey, globalOpts.config);
+            const blocks = await fetchAllBlocks(pageId, parseDepth(options.depth), apiKey, globalOpts.config);
             result.blocks = blocks;
           }
 
-          output(options.content ? result : pageData, outputFormat, { fields: globalOpts.fields });
+          output(options.content || expanded ? result : pageData, outputFormat, { fields: globalOpts.fields });
           return;
         }
 
-        output(pageData, 'table');
+        if (expanded) {
+          console.log(formatPageDetail(
+            pageData,
+            Object.fromEntries(expanded.map((property) => [property.name, formatExpandedValue(property)]))
+          ));
+        } else {
+          output(pageData, 'table');
+        }
 
         if (options.content) {
           console.log('');
           console.log(chalk.bold('Content:'));
           console.log('');
 
-          const blocks = await fetchAllBlocks(pageId, parseInt(options.depth || '1', 10), apiKey, globalOpts.config);
+          const blocks = await fetchAllBlocks(pageId, parseDepth(options.depth), apiKey, globalOpts.config);
           for (const block of blocks) {
             const content = extractBlockContent(block);
             const indent = '  ';
@@ -75,6 +169,34 @@ export function createPageCommand(): Command {
       }
     });
 
+  page
+    .command('tree <page-id>')
+    .description('Show the hierarchy of sub-pages and databases below a page')
+    .option('--depth <number>', 'Levels of sub-pages to show (default: all)')
+    .action(async (pageId: string, options: { depth?: string }) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const depth = parseDepth(options.depth, Infinity);
+
+        const root = await fetchPageTree(pageId, depth, apiKey, globalOpts.config);
+
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat === 'table' || outputFormat === 'plain') {
+          console.log(formatTree(root, outputFormat === 'table'));
+          return;
+        }
+
+        output(root, outputFormat, { fields: globalOpts.fields });
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
   page
     .command('create')
     .description('Create a new page')
@@ -82,13 +204,19 @@ export function createPageCommand(): Command {
     .option('-t, --title <title>', 'Page title')
     .option('--database', 'Parent is a database (default is page)')
     .option('--properties <json>', 'Page properties in JSON format (for database pages)')
+    .option('--set <assignment>', 'Set a property: Name=value, Name+=value or Name-=value (repeatable)', collect, [])
     .option('--content <text>', 'Initial page content (paragraph)')
+    .option('--template <page-id-or-file>', 'Copy properties and content from a template page or Markdown file')
+    .option('--var <name=value>', 'Value for a {{name}} placeholder in the template (repeatable)', collect, [])
     .action(async (options: {
       parent: string;
       title?: string;
       database?: boolean;
       properties?: string;
+      set: string[];
       content?: string;
+      template?: string;
+      var: string[];
     }) => {
       const globalOpts = page.optsWithGlobals<GlobalOptions>();
 
@@ -96,7 +224,7 @@ export function createPageCommand(): Command {
         const apiKey = getApiKey(globalOpts.config);
         requireAuth(apiKey);
 
-        const params: CreatePageParameters = options.database
+        let params: CreatePageParameters = options.database
           ? {
               parent: { type: 'database_id', database_id: options.parent },
               properties: {},
@@ -105,12 +233,31 @@ export function createPageCommand(): Command {
               parent: { type: 'page_id', page_id: options.parent },
               properties: {},
             };
+        let children: BlockObjectRequest[] = [];
+
+        if (options.template) {
+          const template = await buildPageFromTemplate(
+            options.template,
+            { type: options.database ? 'database_id' : 'page_id', id: options.parent },
+            parseTemplateVariables(options.var),
+            { title: options.title },
+            apiKey,
+            globalOpts.config
+          );
+          for (const message of template.warnings) {
+            warn(message);
+          }
+          params = template.params;
+          children = template.children;
+        } else if (options.var.length > 0) {
+          throw new Error('--var is only used with --template.');
+        }
 
         // Handle properties
         if (options.database) {
           if (options.properties) {
             try {
-              params.properties = JSON.parse(options.properties);
+              params.properties = { ...params.properties, ...JSON.parse(options.properties) };
             } catch {
               console.error(chalk.red('Error: Invalid JSON for properties'));
               process.exit(1);
@@ -118,7 +265,7 @@ export function createPageCommand(): Command {
           }
 
           // Add title if provided (for database pages, title is typically "Name" property)
-          if (options.title) {
+          if (options.title && !options.template) {
             params.properties = {
               ...params.properties,
               Name: {
@@ -128,7 +275,7 @@ export function createPageCommand(): Command {
           }
         } else {
           // For regular pages, set the title property
-          if (options.title) {
+          if (options.title && !options.template) {
             params.properties = {
               title: {
                 title: [{ type: 'text', text: { content: options.title } }],
@@ -137,12 +284,34 @@ export function createPageCommand(): Command {
           }
         }
 
-        // Add initial content if provided (parsed as markdown)
-        if (options.content) {
-          params.children = markdownToBlocks(options.content);
+        if (options.set.length > 0) {
+          const schema = options.database
+            ? (await getDatabase(options.parent, apiKey, globalOpts.config) as DatabaseObjectResponse).properties
+            : PAGE_SCHEMA;
+          params.properties = {
+            ...params.properties,
+            ...await resolvePropertySetters(options.set, schema, undefined, apiKey, globalOpts.config),
+          } as CreatePageParameters['properties'];
         }
 
-        const newPage = await createPage(params, apiKey, globalOpts.config) as PageObjectResponse;
+        // Add initial content if provided (parsed as markdown), after any
+        // template content. The first batch is sent with the page; the rest
+        // is appended afterwards.
+        if (options.content) {
+          const converted = await markdownToBlocksWithMentions(options.content, apiKey, globalOpts.config);
+          for (const message of converted.warnings) {
+            warn(message);
+          }
+          children = [...children, ...converted.blocks];
+        }
+        const newPage = await createPageWithChildren(
+          params,
+          children,
+          DEFAULT_BATCH_SIZE,
+          DEFAULT_DELAY_MS,
+          apiKey,
+          globalOpts.config
+        );
 
         success(`Page created successfully!`);
         console.log(`\n${chalk.cyan('ID:')} ${newPage.id}`);
@@ -157,10 +326,12 @@ export function createPageCommand(): Command {
     .command('update <page-id>')
     .description('Update page properties')
     .option('--properties <json>', 'Properties to update in JSON format')
+    .option('--set <assignment>', 'Set a property: Name=value, Name+=value or Name-=value (repeatable)', collect, [])
     .option('--icon <emoji-or-url>', 'Page icon (emoji or external URL)')
     .option('--cover <url>', 'Page cover image URL')
     .action(async (pageId: string, options: {
       properties?: string;
+      set: string[];
       icon?: string;
       cover?: string;
     }) => {
@@ -197,8 +368,19 @@ export function createPageCommand(): Command {
           params.cover = { type: 'external', external: { url: options.cover } };
         }
 
-        if (!options.properties && !options.icon && !options.cover) {
-          console.error(chalk.red('Error: At least one of --properties, --icon, or --cover is required'));
+        if (options.set.length > 0) {
+          const current = await getPage(pageId, apiKey, globalOpts.config) as PageObjectResponse;
+          const schema = current.parent.type === 'database_id'
+            ? (await getDatabase(current.parent.database_id, apiKey, globalOpts.config) as DatabaseObjectResponse).properties
+            : PAGE_SCHEMA;
+          params.properties = {
+            ...params.properties,
+            ...await resolvePropertySetters(options.set, schema, current, apiKey, globalOpts.config),
+          };
+        }
+
+        if (!options.properties && options.set.length === 0 && !options.icon && !options.cover) {
+          console.error(chalk.red('Error: At least one of --properties, --set, --icon, or --cover is required'));
           process.exit(1);
         }
 
@@ -215,38 +397,68 @@ export function createPageCommand(): Command {
 
   page
     .command('move <page-id>')
-    .description('Move page to a new parent (limited support in current Notion API)')
+    .description('Move a page to a new parent by copying its page tree there and archiving the original')
     .requiredOption('-p, --parent <id>', 'New parent page or database ID')
     .option('--database', 'New parent is a database')
-    .action(async (pageId: string, options: { parent: string; database?: boolean }) => {
+    .option(
+      '--strategy <strategy>',
+      'How to move; recreate is the only strategy, since the Notion API cannot change a page\'s parent',
+      'recreate'
+    )
+    .option('--relink <page-ids...>', 'Also update links to the moved pages in these pages')
+    .option('--force', 'Archive the original even if some content could not be copied')
+    .action(async (pageId: string, options: {
+      parent: string;
+      database?: boolean;
+      strategy: string;
+      relink?: string[];
+      force?: boolean;
+    }) => {
       const globalOpts = page.optsWithGlobals<GlobalOptions>();
 
       try {
         const apiKey = getApiKey(globalOpts.config);
         requireAuth(apiKey);
 
-        // First get the current page to show what we're moving
+        // The 2022-06-28 API version cannot change a page's parent
+        if (options.strategy !== 'recreate') {
+          throw new Error(`Invalid strategy: ${options.strategy}. The Notion API cannot move pages, so only recreate is supported.`);
+        }
+
         const currentPage = await getPage(pageId, apiKey, globalOpts.config) as PageObjectResponse;
         const title = extractPageTitle(currentPage);
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat === 'table') {
+          info(`Recreating "${title}" under ${options.parent}...`);
+        }
 
-        // Notion API has limited support for moving pages
-        // The 2022-06-28 API version doesn't support changing parent directly
-        // This is a placeholder that attempts the operation
-        console.log(chalk.yellow(`Attempting to move "${title}" to parent ${options.parent}...`));
+        const result = await movePageByRecreation(
+          pageId,
+          { type: options.database ? 'database_id' : 'page_id', id: options.parent },
+          { relink: options.relink, force: options.force },
+          apiKey,
+          globalOpts.config
+        );
 
-        if (options.database) {
-          console.log(chalk.gray('Target is a database.'));
+        for (const message of result.warnings) {
+          warn(message);
         }
 
-        // Currently, Notion's API doesn't support directly changing a page's parent
-        // This operation will succeed but won't actually move the page
-        // Future API versions may support this
-        const updatedPage = await updatePage(pageId, {}, apiKey, globalOpts.config) as PageObjectResponse;
+        // Old → new ID mapping for the page and each sub-page
+        if (outputFormat !== 'table') {
+          output(result.mapping, outputFormat, { fields: globalOpts.fields });
+          return;
+        }
 
-        console.log(chalk.yellow('\nNote: The Notion API (2022-06-28) does not support moving pages between parents.'));
-        console.log(chalk.yellow('This command is included for forward compatibility with future API versions.'));
-        console.log(`\n${chalk.cyan('Page ID:')} ${updatedPage.id}`);
-        console.log(`${chalk.cyan('URL:')} ${updatedPage.url}`);
+        for (const { old_id, new_id, title: pageTitle } of result.mapping) {
+          console.log(`${old_id} → ${new_id}  ${chalk.gray(pageTitle)}`);
+        }
+        if (result.relinked > 0) {
+          info(`Updated links in ${result.relinked} block(s).`);
+        }
+        if (result.archived) {
+          success(`Moved "${title}" (${result.mapping.length} page(s))!`);
+        }
 
       } catch (error) {
         handleError(error, globalOpts.verbose);
@@ -286,7 +498,44 @@ export function createPageCommand(): Command {
         }
 
         await archivePage(pageId, apiKey, globalOpts.config);
+        recordArchivedItem({
+          id: pageData.id,
+          object: 'page',
+          type: 'page',
+          parent_id: extractParentId(pageData),
+          title,
+          archived_at: new Date().toISOString(),
+        }, globalOpts.config);
+
         success(`Page "${title}" archived successfully.`);
+        console.log(`${chalk.cyan('Restore with:')} onotion page restore ${pageData.id}`);
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  page
+    .command('restore <page-id>')
+    .description('Restore an archived page')
+    .action(async (pageId: string) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const restored = await updatePage(pageId, { archived: false }, apiKey, globalOpts.config) as PageObjectResponse;
+        forgetArchivedItem(pageId, globalOpts.config);
+
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat !== 'table') {
+          output(restored, outputFormat, { fields: globalOpts.fields });
+          return;
+        }
+
+        success(`Page "${extractPageTitle(restored)}" restored.`);
+        console.log(`\n${chalk.cyan('URL:')} ${restored.url}`);
 
       } catch (error) {
         handleError(error, globalOpts.verbose);
@@ -298,6 +547,8 @@ export function createPageCommand(): Command {
     .description('Append content to a page')
     .option('-c, --content <text>', 'Content to append')
     .option('--type <type>', 'Block type (paragraph, heading_1, heading_2, heading_3, bulleted_list_item, numbered_list_item, to_do, toggle, quote, callout, code)')
+    .option('--icon <emoji>', 'Emoji icon for callout blocks', '💡')
+    .option('--color <color>', 'Color for callout blocks (e.g. gray_background, red)')
     .option('--children <json>', 'JSON array (or {"children":[...]}) of Notion blocks to append')
     .option('--children-file <path>', 'Path to JSON file with array (or {"children":[...]}) of Notion blocks')
     .option('--batch-size <number>', 'Max children per request (1-100)', String(DEFAULT_BATCH_SIZE))
@@ -305,6 +556,8 @@ export function createPageCommand(): Command {
     .action(async (pageId: string, options: {
       content?: string;
       type?: string;
+      icon?: string;
+      color?: string;
       children?: string;
       childrenFile?: string;
       batchSize?: string;
@@ -340,10 +593,15 @@ export function createPageCommand(): Command {
               process.exit(1);
             }
 
-            children = [createBlock(options.type, options.content)];
+            children = [createBlock(options.type, options.content, { icon: options.icon, color: options.color })];
           } else {
-            // No explicit --type: parse content as markdown
-            children = markdownToBlocks(options.content);
+            // No explicit --type: parse content as markdown, resolving
+            // [[wikilinks]] and @mentions
+            const converted = await markdownToBlocksWithMentions(options.content, apiKey, globalOpts.config);
+            for (const message of converted.warnings) {
+              warn(message);
+            }
+            children = converted.blocks;
           }
         }
 
@@ -404,26 +662,333 @@ export function createPageCommand(): Command {
       }
     });
 
+  page
+    .command('import <files...>')
+    .description('Create pages from Markdown files, directories or globs (YAML front matter becomes properties)')
+    .requiredOption('-p, --parent <id>', 'Parent page or database ID')
+    .option('--database', 'Parent is a database (front matter is mapped to its properties)')
+    .option('--delay-ms <number>', 'Delay between page creations in ms', String(DEFAULT_DELAY_MS))
+    .action(async (inputs: string[], options: { parent: string; database?: boolean; delayMs?: string }) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const files = collectMarkdownFiles(inputs);
+        if (files.length === 0) {
+          throw new Error('No Markdown files found.');
+        }
+
+        const delayMs = parseDelayMs(options.delayMs, DEFAULT_DELAY_MS);
+        const schema = options.database
+          ? (await getDatabase(options.parent, apiKey, globalOpts.config) as DatabaseObjectResponse).properties
+          : undefined;
+
+        // Listed the first time front matter names people by email or name
+        let workspaceUsers: UserObjectResponse[] | undefined;
+        const results: Record<string, unknown>[] = [];
+        for (const [index, file] of files.entries()) {
+          if (index > 0 && delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
+
+          try {
+            const document = parseFrontMatter(readFileSync(file, 'utf8'));
+            const people = schema ? findPeopleReferences(document.data, schema) : [];
+            if (people.length > 0 && !workspaceUsers) {
+              workspaceUsers = await listAllUsers(apiKey, globalOpts.config);
+            }
+            const pageInput = buildPageFromDocument(document, {
+              parentId: options.parent,
+              schema,
+              fallbackTitle: basename(file, extname(file)),
+              users: people.length > 0 ? matchPeople(people, workspaceUsers ?? []) : undefined,
+            });
+
+            for (const message of pageInput.warnings) {
+              warn(`${file}: ${message}`);
+            }
+
+            const newPage = await createPageWithChildren(
+              pageInput.params,
+              pageInput.children,
+              DEFAULT_BATCH_SIZE,
+              DEFAULT_DELAY_MS,
+              apiKey,
+              globalOpts.config
+            );
+
+            results.push({ file, status: 'created', title: pageInput.title, id: newPage.id, url: newPage.url });
+          } catch (error) {
+            if (files.length === 1) throw error;
+            results.push({ file, status: 'failed', error: (error as Error).message });
+          }
+        }
+
+        const failed = results.filter((result) => result.status === 'failed').length;
+        output(results, globalOpts.output || 'table', { fields: globalOpts.fields });
+
+        if (failed > 0) {
+          console.error(chalk.red(`${failed} of ${files.length} file(s) failed to import.`));
+          process.exitCode = 1;
+        } else if ((globalOpts.output || 'table') === 'table') {
+          success(`Imported ${results.length} page(s).`);
+        }
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  page
+    .command('replace <page-id>')
+    .description('Replace the content of a page (Markdown from --file, or JSON blocks)')
+    .option('-f, --file <path>', 'Markdown file with the new content ("-" for stdin)')
+    .option('--children-file <path>', 'Path to JSON file with array (or {"children":[...]}) of Notion blocks')
+    .option('--keep-children-pages', 'Never delete child_page/child_database blocks')
+    .option('--allow-empty', 'Allow empty new content, which clears the page')
+    .option('--batch-size <number>', 'Max children per request (1-100)', String(DEFAULT_BATCH_SIZE))
+    .option('--delay-ms <number>', 'Delay between batch requests in ms', String(DEFAULT_DELAY_MS))
+    .action(async (pageId: string, options: {
+      file?: string;
+      childrenFile?: string;
+      keepChildrenPages?: boolean;
+      allowEmpty?: boolean;
+      batchSize?: string;
+      delayMs?: string;
+    }) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        if (options.file && options.childrenFile) {
+          throw new Error('Provide either --file or --children-file, not both.');
+        }
+
+        const batchSize = parseBatchSize(options.batchSize, DEFAULT_BATCH_SIZE);
+        const delayMs = parseDelayMs(options.delayMs, DEFAULT_DELAY_MS);
+
+        let children = parseBlockChildrenInput(undefined, options.childrenFile);
+        if (!children) {
+          let markdown: string;
+          if (options.file && options.file !== '-') {
+            try {
+              markdown = readFileSync(options.file, 'utf8');
+            } catch {
+              throw new Error(`Unable to read file: ${options.file}`);
+            }
+          } else if (options.file === '-') {
+            markdown = await readStdin();
+          } else {
+            throw new Error('Provide --file (use "-" for stdin) or --children-file.');
+          }
+
+          const converted = await markdownToBlocksWithMentions(markdown, apiKey, globalOpts.config);
+          for (const message of converted.warnings) {
+            warn(message);
+          }
+          children = converted.blocks;
+        }
+
+        const existing = await listAllBlockChildren(pageId, apiKey, globalOpts.config);
+        const { kept, removed } = planPageReplace(existing, children, {
+          keepChildrenPages: options.keepChildrenPages,
+          allowEmpty: options.allowEmpty,
+        });
+
+        // Write the new content before archiving the old, so a failed
+        // request never leaves the page empty
+        const responses = children.length > 0
+          ? await appendBlockChildrenInBatches(pageId, children, batchSize, delayMs, apiKey, globalOpts.config)
+          : [];
+        for (const block of removed) {
+          await deleteBlock(block.id, apiKey, globalOpts.config);
+        }
+
+        const added = responses.reduce((sum, response) => sum + response.results.length, 0);
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat === 'table') {
+          success(`Replaced page content: archived ${removed.length} block(s), added ${added}.`);
+          if (kept.length > 0) {
+            console.log(chalk.gray(`Kept ${kept.length} child page/database block(s).`));
+          }
+        } else {
+          output({ id: pageId, archived: removed.length, kept: kept.length, added }, outputFormat, {
+            fields: globalOpts.fields,
+          });
+        }
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  page
+    .command('duplicate <page-id>')
+    .description('Copy a page with its properties and all nested content to a new parent')
+    .requiredOption('-p, --parent <id>', 'Parent page or database ID for the copy')
+    .option('--database', 'Parent is a database (default is page)')
+    .option('-t, --title <title>', 'Title of the copy (default: same as the original)')
+    .option('--include-child-pages', 'Also copy sub-pages, recursively')
+    .action(async (pageId: string, options: {
+      parent: string;
+      database?: boolean;
+      title?: string;
+      includeChildPages?: boolean;
+    }) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const result = await duplicatePage(
+          pageId,
+          { type: options.database ? 'database_id' : 'page_id', id: options.parent },
+          { title: options.title, includeChildPages: options.includeChildPages },
+          apiKey,
+          globalOpts.config
+        );
+
+        for (const message of result.warnings) {
+          warn(message);
+        }
+
+        const outputFormat = globalOpts.output || 'table';
+        if (outputFormat !== 'table') {
+          output(result.page, outputFormat, { fields: globalOpts.fields });
+          return;
+        }
+
+        const subPages = result.copies.length - 1;
+        success(subPages > 0 ? `Page duplicated with ${subPages} sub-page(s)!` : 'Page duplicated!');
+        console.log(`\n${chalk.cyan('ID:')} ${result.page.id}`);
+        console.log(`${chalk.cyan('URL:')} ${result.page.url}`);
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  page
+    .command('edit <page-id>')
+    .description('Edit page content as Markdown in $EDITOR and apply only the changed blocks')
+    .action(async (pageId: string) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const pageData = await getPage(pageId, apiKey, globalOpts.config) as PageObjectResponse;
+        const blocks = await fetchBlockTree(pageId, Infinity, apiKey, globalOpts.config);
+        const original = renderEditableDocument(blocks);
+
+        const dir = mkdtempSync(join(tmpdir(), 'onotion-edit-'));
+        const file = join(dir, 'page.md');
+        writeFileSync(file, original);
+        openInEditor(file);
+
+        const edited = readFileSync(file, 'utf8');
+        if (edited === original) {
+          rmSync(dir, { recursive: true, force: true });
+          info('No changes.');
+          return;
+        }
+
+        const { lookup, warnings } = await resolveMentionLookup(edited, apiKey, globalOpts.config);
+        const plan = planPageEdit(blocks, edited, lookup);
+        for (const message of [...warnings, ...plan.warnings]) {
+          warn(message);
+        }
+
+        const inserted = plan.inserts.reduce((sum, insert) => sum + insert.blocks.length, 0);
+        if (plan.updates.length === 0 && inserted === 0 && plan.deletes.length === 0) {
+          rmSync(dir, { recursive: true, force: true });
+          info('No changes.');
+          return;
+        }
+
+        // Someone else edited the page meanwhile: applying the diff would
+        // overwrite their work, so keep the file and stop.
+        const current = await getPage(pageId, apiKey, globalOpts.config) as PageObjectResponse;
+        if (current.last_edited_time !== pageData.last_edited_time) {
+          throw new Error(
+            `Page was edited in Notion while you were editing (last edited ${current.last_edited_time}). ` +
+            `No changes were applied; your version is saved in ${file}`
+          );
+        }
+
+        await applyEditPlan(pageId, plan, apiKey, globalOpts.config);
+        rmSync(dir, { recursive: true, force: true });
+
+        success(`Updated ${plan.updates.length}, inserted ${inserted} and deleted ${plan.deletes.length} block(s).`);
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
+  // Export a page tree to Markdown files
+  page
+    .command('export <page-id>')
+    .description('Export a page and all sub-pages/databases to a directory of Markdown files')
+    .requiredOption('--out <dir>', 'Output directory')
+    .action(async (pageId: string, options: { out: string }) => {
+      const globalOpts = page.optsWithGlobals<GlobalOptions>();
+
+      try {
+        const apiKey = getApiKey(globalOpts.config);
+        requireAuth(apiKey);
+
+        const format = globalOpts.output || 'table';
+        const { manifest, warnings } = await exportPageTree(pageId, options.out, apiKey, globalOpts.config);
+
+        for (const message of warnings) {
+          warn(message);
+        }
+
+        if (format === 'json') {
+          output(manifest, format);
+        } else if (format === 'table') {
+          const pages = manifest.entries.filter((entry) => entry.type === 'page').length;
+          const databases = manifest.entries.length - pages;
+          success(`Exported ${pages} page(s) and ${databases} database(s) to ${options.out}`);
+          console.log(`${chalk.cyan('Manifest:')} ${join(options.out, MANIFEST_FILE)}`);
+        } else {
+          output(manifest.entries, format, { fields: globalOpts.fields });
+        }
+
+      } catch (error) {
+        handleError(error, globalOpts.verbose);
+      }
+    });
+
   return page;
 }
 
+function openInEditor(file: string): void {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  // Run through the shell so editors with arguments ("code --wait") work
+  const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+  if (result.error) {
+    throw new Error(`Unable to start editor "${editor}": ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`Editor exited with code ${result.status}; no changes were applied.`);
+  }
+}
+
 async function fetchAllBlocks(
   blockId: string,
   depth: number,
   apiKey: string,
   configPath?: string
 ): Promise<BlockObjectResponse[]> {
-  const blocks: BlockObjectResponse[] = [];
-  let cursor: string | undefined;
-
-  do {
-    const response = await getBlockChildren(blockId, cursor, apiKey, configPath);
-    const blockResults = response.results.filter(
-      (r): r is BlockObjectResponse => 'type' in r
-    );
-    blocks.push(...blockResults);
-    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
-  } while (cursor);
+  const blocks = await listAllBlockChildren(blockId, apiKey, configPath);
 
   // Recursively fetch children if depth > 1
   if (depth > 1) {
@@ -438,7 +1003,11 @@ async function fetchAllBlocks(
   return blocks;
 }
 
-function createBlock(type: string, content: string): BlockObjectRequest {
+function createBlock(
+  type: string,
+  content: string,
+  callout: { icon?: string; color?: string } = {}
+): BlockObjectRequest {
   const richText = [{ type: 'text' as const, text: { content } }];
 
   switch (type) {
@@ -459,7 +1028,15 @@ function createBlock(type: string, content: string): BlockObjectRequest {
     case 'quote':
       return { object: 'block', type: 'quote', quote: { rich_text: richText } };
     case 'callout':
-      return { object: 'block', type: 'callout', callout: { rich_text: richText } };
+      return {
+        object: 'block',
+        type: 'callout',
+        callout: {
+          rich_text: richText,
+          icon: { type: 'emoji', emoji: (callout.icon || '💡') as '💡' },
+          ...(callout.color ? { color: callout.color as 'default' } : {}),
+        },
+      };
     case 'code':
       return { object: 'block', type: 'code', code: { rich_text: richText, language: 'plain text' } };
     case 'paragraph':
@@ -467,3 +1044,8 @@ function createBlock(type: string, content: string): BlockObjectRequest {
       return { object: 'block', type: 'paragraph', paragraph: { rich_text: richText } };
   }
 }
+
+// Accumulates a repeatable option
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
@@ -4,7 +4,9 @@ import { search } from '../lib/client.js';
 import { getApiKey } from '../lib/config.js';
 import { handleError, requireAuth } from '../lib/errors.js';
 import { output, outputLine, parseFieldsInput, extractPageTitle, extractDatabaseTitle } from '../lib/output.js';
-import type { GlobalOptions, PageObjectResponse, DatabaseObjectResponse } from '../types/index.js';
+import { planSearchSort, sortSearchResults, type SortPlan } from '../lib/sort.js';
+import type { SearchParameters } from '@notionhq/client/build/src/api-endpoints';
+import type { GlobalOptions, PageObjectResponse, DatabaseObjectResponse, SearchResponse } from '../types/index.js';
 import Table from 'cli-table3';
 
 export function createSearchCommand(): Command {
@@ -14,12 +16,12 @@ export function createSearchCommand(): Command {
     .option('-t, --type <type>', 'Filter by type: page, database')
     .option('-l, --limit <number>', 'Maximum number of results', '20')
     .option('--start-cursor <cursor>', 'Pagination cursor')
-    .option('-s, --sort <direction>', 'Sort direction: ascending, descending (by last_edited_time)')
+    .option('-s, --sort <keys>', 'ascending or descending by last edit, or keys like "title:asc,@created:desc" (title and @created read every match first)')
     .action(async (query: string, options: {
       type?: 'page' | 'database';
       limit?: string;
       startCursor?: string;
-      sort?: 'ascending' | 'descending';
+      sort?: string;
     }) => {
       const globalOpts = searchCmd.optsWithGlobals<GlobalOptions>();
 
@@ -46,11 +48,17 @@ export function createSearchCommand(): Command {
           searchOptions.start_cursor = options.startCursor;
         }
 
+        let sortPlan: SortPlan | undefined;
         if (options.sort) {
-          searchOptions.sort = {
-            direction: options.sort,
-            timestamp: 'last_edited_time',
-          };
+          sortPlan = planSearchSort(options.sort);
+          if (!sortPlan.clientSide) {
+            searchOptions.sort = {
+              direction: sortPlan.sorts[0].direction,
+              timestamp: 'last_edited_time',
+            };
+          } else if (options.startCursor) {
+            throw new Error(`Sorting by ${sortPlan.localKeys.join(', ')} happens locally and does not work with --start-cursor.`);
+          }
         }
 
         const outputFormat = globalOpts.output || 'table';
@@ -64,6 +72,14 @@ export function createSearchCommand(): Command {
             process.exit(1);
           }
 
+          if (sortPlan?.clientSide) {
+            const response = await searchSortedLocally(query, searchOptions, sortPlan, totalLimit, apiKey, globalOpts.config);
+            for (const item of response.results) {
+              outputLine(item, outputFormat, globalOpts.fields);
+            }
+            return;
+          }
+
           let remaining = totalLimit;
           let cursor = options.startCursor;
 
@@ -91,15 +107,17 @@ export function createSearchCommand(): Command {
           return;
         }
 
-        const response = await search(
-          query,
-          {
-            ...searchOptions,
-            page_size: Math.min(totalLimit, 100),
-          },
-          apiKey,
-          globalOpts.config
-        );
+        const response = sortPlan?.clientSide
+          ? await searchSortedLocally(query, searchOptions, sortPlan, totalLimit, apiKey, globalOpts.config)
+          : await search(
+            query,
+            {
+              ...searchOptions,
+              page_size: Math.min(totalLimit, 100),
+            },
+            apiKey,
+            globalOpts.config
+          );
 
         if (outputFormat === 'json' && !fields) {
           output(response, 'json');
@@ -182,6 +200,34 @@ export function createSearchCommand(): Command {
   return searchCmd;
 }
 
+// Fetches every result and sorts them here, then keeps the first limit;
+// search itself can only sort by last edited time
+async function searchSortedLocally(
+  query: string,
+  options: Partial<SearchParameters>,
+  sortPlan: SortPlan,
+  limit: number,
+  apiKey?: string,
+  configPath?: string
+): Promise<SearchResponse> {
+  const results: SearchResponse['results'] = [];
+  let last: SearchResponse;
+  let cursor: string | undefined;
+
+  do {
+    last = await search(
+      query,
+      { ...options, page_size: 100, start_cursor: cursor },
+      apiKey,
+      configPath
+    );
+    results.push(...last.results);
+    cursor = last.has_more ? last.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return { ...last, results: sortSearchResults(results, sortPlan.sorts).slice(0, limit), has_more: false, next_cursor: null };
+}
+
 function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
   return str.slice(0, maxLength - 3) + '...';
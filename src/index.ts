@@ -14,18 +14,25 @@ program
   .name('onotion')
   .description('A modern, full-featured Notion CLI')
   .version(pkg.version)
-  .option('-o, --output <format>', 'Output format: table, json, plain, compact', 'table')
+  .option('-o, --output <format>', 'Output format: table, json, plain, compact, markdown, html (page content)', 'table')
   .option('-v, --verbose', 'Enable verbose output')
   .option('--config <path>', 'Path to config directory')
   .option('--fields <list>', 'Comma-separated fields for compact/filtered output')
   .option('--stream', 'Stream results one record per line (json/compact only)')
-  .hook('preAction', (thisCommand) => {
+  .hook('preAction', (thisCommand, actionCommand) => {
     const options = thisCommand.opts();
-    const validFormats: OutputFormat[] = ['table', 'json', 'plain', 'compact'];
+    const validFormats: OutputFormat[] = ['table', 'json', 'plain', 'compact', 'markdown', 'html'];
     if (options.output && !validFormats.includes(options.output as OutputFormat)) {
       console.error(`Invalid output format: ${options.output}. Valid formats: ${validFormats.join(', ')}`);
       process.exit(1);
     }
+
+    // markdown and html render page content, which only `page get` shows
+    const isPageGet = actionCommand.name() === 'get' && actionCommand.parent?.name() === 'page';
+    if ((options.output === 'markdown' || options.output === 'html') && !isPageGet) {
+      console.error(`Output format ${options.output} is only supported by page get.`);
+      process.exit(1);
+    }
   });
 
 // Add commands
@@ -2,8 +2,10 @@ import { readFileSync } from 'node:fs';
 import type {
   AppendBlockChildrenParameters,
   AppendBlockChildrenResponse,
+  CreatePageParameters,
 } from '@notionhq/client/build/src/api-endpoints';
-import { appendBlockChildren } from './client.js';
+import { appendBlockChildren, createPage, deleteBlock, getBlockChildren } from './client.js';
+import type { BlockObjectResponse, BlockWithChildren, PageObjectResponse } from '../types/index.js';
 
 export const DEFAULT_BATCH_SIZE = 100;
 export const DEFAULT_DELAY_MS = 350;
@@ -75,20 +77,57 @@ export function parseDelayMs(value?: string, fallback = DEFAULT_DELAY_MS): numbe
   return parsed;
 }
 
+// Levels of nesting to fetch; fallback applies when the option is not given
+export function parseDepth(value?: string, fallback = 1): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid depth: ${value}. Use a positive integer.`);
+  }
+  return parsed;
+}
+
+// Where pages and blocks are written; by default the Notion API
+export interface BlockWriter {
+  createPage(params: CreatePageParameters): Promise<PageObjectResponse>;
+  appendChildren(blockId: string, children: BlockChildren, after?: string): Promise<AppendBlockChildrenResponse>;
+  listChildren(blockId: string): Promise<BlockObjectResponse[]>;
+  deleteBlock(blockId: string): Promise<unknown>;
+}
+
+export function apiBlockWriter(apiKey?: string, configPath?: string): BlockWriter {
+  return {
+    createPage: async (params) => await createPage(params, apiKey, configPath) as PageObjectResponse,
+    appendChildren: (blockId, children, after) => appendBlockChildren(blockId, children, after, apiKey, configPath),
+    listChildren: (blockId) => listAllBlockChildren(blockId, apiKey, configPath),
+    deleteBlock: (blockId) => deleteBlock(blockId, apiKey, configPath),
+  };
+}
+
 export async function appendBlockChildrenInBatches(
   blockId: string,
   children: AppendBlockChildrenParameters['children'],
   batchSize: number,
   delayMs: number,
   apiKey?: string,
-  configPath?: string
+  configPath?: string,
+  after?: string,
+  writer: BlockWriter = apiBlockWriter(apiKey, configPath)
 ): Promise<AppendBlockChildrenResponse[]> {
   const responses: AppendBlockChildrenResponse[] = [];
+  let anchor = after;
   for (let i = 0; i < children.length; i += batchSize) {
-    const batch = children.slice(i, i + batchSize);
-    const response = await appendBlockChildren(blockId, batch, apiKey, configPath);
+    const { blocks: batch, deferred } = splitDeepChildren(children.slice(i, i + batchSize));
+    const response = await writer.appendChildren(blockId, batch, anchor);
     responses.push(response);
 
+    const createdIds = response.results.map((result) => result.id);
+    // Later batches go after this one when inserting mid-page
+    if (anchor) {
+      anchor = createdIds[createdIds.length - 1] ?? anchor;
+    }
+    await appendDeferredChildren(createdIds, deferred, batchSize, delayMs, writer);
+
     const isLast = i + batchSize >= children.length;
     if (!isLast && delayMs > 0) {
       await wait(delayMs);
@@ -98,6 +137,200 @@ export async function appendBlockChildrenInBatches(
   return responses;
 }
 
+export async function createPageWithChildren(
+  params: CreatePageParameters,
+  children: BlockChildren,
+  batchSize: number,
+  delayMs: number,
+  apiKey?: string,
+  configPath?: string,
+  writer: BlockWriter = apiBlockWriter(apiKey, configPath)
+): Promise<PageObjectResponse> {
+  const { blocks: firstBatch, deferred } = splitDeepChildren(children.slice(0, batchSize));
+  const page = await writer.createPage(firstBatch.length > 0 ? { ...params, children: firstBatch } : params);
+
+  if (deferred.length > 0) {
+    const created = await writer.listChildren(page.id);
+    await appendDeferredChildren(created.map((block) => block.id), deferred, batchSize, delayMs, writer);
+  }
+
+  const rest = children.slice(batchSize);
+  if (rest.length > 0) {
+    if (delayMs > 0) {
+      await wait(delayMs);
+    }
+    await appendBlockChildrenInBatches(page.id, rest, batchSize, delayMs, apiKey, configPath, undefined, writer);
+  }
+
+  return page;
+}
+
+export async function listAllBlockChildren(
+  blockId: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<BlockObjectResponse[]> {
+  const blocks: BlockObjectResponse[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await getBlockChildren(blockId, cursor, apiKey, configPath);
+    const blockResults = response.results.filter(
+      (r): r is BlockObjectResponse => 'type' in r
+    );
+    blocks.push(...blockResults);
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return blocks;
+}
+
+export async function fetchBlockTree(
+  blockId: string,
+  depth: number,
+  apiKey?: string,
+  configPath?: string
+): Promise<BlockWithChildren[]> {
+  const blocks: BlockWithChildren[] = await listAllBlockChildren(blockId, apiKey, configPath);
+
+  if (depth > 1) {
+    for (const block of blocks) {
+      if (block.has_children && block.type !== 'child_page' && block.type !== 'child_database') {
+        block.children = await fetchBlockTree(block.id, depth - 1, apiKey, configPath);
+      }
+    }
+  }
+
+  return blocks;
+}
+
+type BlockChildren = AppendBlockChildrenParameters['children'];
+
+const EMPTY_PARAGRAPH = { type: 'paragraph', paragraph: { rich_text: [] } } as BlockChildren[number];
+
+// Where to append children that could not be sent with their parent:
+// [index] is the index-th created block, [index, childIndex] one of its
+// children and [index, childIndex, grandchildIndex] a block inside a column.
+interface DeferredChildren {
+  path: number[];
+  children: BlockChildren;
+  // The target's first child is a stand-in to delete once these are appended
+  placeholder?: boolean;
+}
+
+// Notion accepts at most two levels of nesting and 100 children per array in
+// a single request. Strip anything beyond that so it can be appended once the
+// parent blocks exist.
+export function splitDeepChildren(blocks: BlockChildren): { blocks: BlockChildren; deferred: DeferredChildren[] } {
+  const deferred: DeferredChildren[] = [];
+
+  // Children of a block in this request may not have children of their own.
+  // Tables cannot be sent without their rows, so a table and every sibling
+  // after it wait until the parent exists, as does anything past 100. A
+  // parent that would start empty gets an empty paragraph until then.
+  const trimChildren = (children: BlockChildren, path: number[]): BlockChildren => {
+    const tableIndex = children.findIndex((child) => getBlockType(child) === 'table');
+    const cut = Math.min(tableIndex < 0 ? children.length : tableIndex, MAX_CHILDREN_PER_REQUEST);
+    if (cut < children.length) {
+      deferred.push({ path, children: children.slice(cut), placeholder: cut === 0 });
+    }
+    if (cut === 0) return [EMPTY_PARAGRAPH];
+
+    return children.slice(0, cut).map((child, childIndex) => {
+      const grandchildren = getNestedChildren(child);
+      if (!grandchildren) return child;
+      deferred.push({ path: [...path, childIndex], children: grandchildren });
+      return withNestedChildren(child, undefined);
+    });
+  };
+
+  const trimmed = blocks.map((block, index) => {
+    const children = getNestedChildren(block);
+    if (!children) return block;
+
+    // Columns cannot be created empty, so their content goes with them and
+    // is trimmed like the children of any other block
+    if (getBlockType(block) === 'column_list') {
+      const columns = children.map((column, columnIndex) => {
+        const content = getNestedChildren(column);
+        return content ? withNestedChildren(column, trimChildren(content, [index, columnIndex])) : column;
+      });
+      return withNestedChildren(block, columns);
+    }
+
+    // A table's rows go with it; more than 100 are appended afterwards
+    if (getBlockType(block) === 'table') {
+      const overflow = children.slice(MAX_CHILDREN_PER_REQUEST);
+      if (overflow.length > 0) deferred.push({ path: [index], children: overflow });
+      return withNestedChildren(block, children.slice(0, MAX_CHILDREN_PER_REQUEST));
+    }
+
+    return withNestedChildren(block, trimChildren(children, [index]));
+  });
+
+  return { blocks: trimmed, deferred };
+}
+
+async function appendDeferredChildren(
+  createdIds: string[],
+  deferred: DeferredChildren[],
+  batchSize: number,
+  delayMs: number,
+  writer: BlockWriter
+): Promise<void> {
+  const childIds = new Map<string, string[]>();
+  const listChildIds = async (blockId: string): Promise<string[]> => {
+    if (!childIds.has(blockId)) {
+      const created = await writer.listChildren(blockId);
+      childIds.set(blockId, created.map((block) => block.id));
+    }
+    return childIds.get(blockId) ?? [];
+  };
+
+  for (const { path, children, placeholder } of deferred) {
+    let targetId: string | undefined = createdIds[path[0]];
+
+    for (const index of path.slice(1)) {
+      if (!targetId) break;
+      targetId = (await listChildIds(targetId))[index];
+    }
+    if (!targetId) {
+      throw new Error(
+        `Could not find the block to append ${children.length} nested block(s) to; the content was only partly written.`
+      );
+    }
+
+    const placeholderId = placeholder ? (await listChildIds(targetId))[0] : undefined;
+    await appendBlockChildrenInBatches(targetId, children, batchSize, delayMs, undefined, undefined, undefined, writer);
+    if (placeholderId) {
+      await writer.deleteBlock(placeholderId);
+    }
+  }
+}
+
+function getBlockType(block: BlockChildren[number]): string | undefined {
+  const record = block as Record<string, unknown>;
+  if (typeof record.type === 'string') return record.type;
+  return Object.keys(record).find((key) => key !== 'object' && key !== 'type');
+}
+
+function getNestedChildren(block: BlockChildren[number]): BlockChildren | undefined {
+  const type = getBlockType(block);
+  if (!type) return undefined;
+  const data = (block as Record<string, unknown>)[type] as { children?: BlockChildren } | undefined;
+  return data?.children && data.children.length > 0 ? data.children : undefined;
+}
+
+function withNestedChildren(block: BlockChildren[number], children: BlockChildren | undefined): BlockChildren[number] {
+  const type = getBlockType(block);
+  if (!type) return block;
+  const { children: _omit, ...data } = (block as Record<string, unknown>)[type] as Record<string, unknown>;
+  return {
+    ...block,
+    [type]: children ? { ...data, children } : data,
+  } as BlockChildren[number];
+}
+
 function wait(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
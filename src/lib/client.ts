@@ -5,7 +5,9 @@ import type {
   CreatePageParameters,
   UpdatePageParameters,
   CreateDatabaseParameters,
+  UpdateDatabaseParameters,
   AppendBlockChildrenParameters,
+  UpdateBlockParameters,
 } from '@notionhq/client/build/src/api-endpoints';
 import { withNotionRetry, requireAuth } from './errors.js';
 import { getApiKey } from './config.js';
@@ -38,9 +40,9 @@ export async function getCurrentUser(apiKey?: string, configPath?: string) {
   return withNotionRetry(() => client.users.me({}));
 }
 
-export async function listUsers(apiKey?: string, configPath?: string) {
+export async function listUsers(startCursor?: string, apiKey?: string, configPath?: string) {
   const client = getClient(apiKey, configPath);
-  return withNotionRetry(() => client.users.list({}));
+  return withNotionRetry(() => client.users.list({ start_cursor: startCursor }));
 }
 
 // Search operations
@@ -108,6 +110,21 @@ export async function createDatabase(
   );
 }
 
+export async function updateDatabase(
+  databaseId: string,
+  params: Omit<UpdateDatabaseParameters, 'database_id'>,
+  apiKey?: string,
+  configPath?: string
+) {
+  const client = getClient(apiKey, configPath);
+  return withNotionRetry(() =>
+    client.databases.update({
+      database_id: databaseId,
+      ...params,
+    })
+  );
+}
+
 // Page operations
 export async function getPage(pageId: string, apiKey?: string, configPath?: string) {
   const client = getClient(apiKey, configPath);
@@ -138,6 +155,25 @@ export async function updatePage(
   );
 }
 
+// One page of a property's value; title, rich_text, people, relation and
+// rollup values come back as paginated lists of property items
+export async function getPageProperty(
+  pageId: string,
+  propertyId: string,
+  startCursor?: string,
+  apiKey?: string,
+  configPath?: string
+) {
+  const client = getClient(apiKey, configPath);
+  return withNotionRetry(() =>
+    client.pages.properties.retrieve({
+      page_id: pageId,
+      property_id: propertyId,
+      start_cursor: startCursor,
+    })
+  );
+}
+
 export async function archivePage(pageId: string, apiKey?: string, configPath?: string) {
   const client = getClient(apiKey, configPath);
   return withNotionRetry(() =>
@@ -172,6 +208,7 @@ export async function getBlockChildren(
 export async function appendBlockChildren(
   blockId: string,
   children: AppendBlockChildrenParameters['children'],
+  after?: string,
   apiKey?: string,
   configPath?: string
 ) {
@@ -180,10 +217,23 @@ export async function appendBlockChildren(
     client.blocks.children.append({
       block_id: blockId,
       children,
+      ...(after ? { after } : {}),
     })
   );
 }
 
+export async function updateBlock(
+  blockId: string,
+  params: Omit<UpdateBlockParameters, 'block_id'>,
+  apiKey?: string,
+  configPath?: string
+) {
+  const client = getClient(apiKey, configPath);
+  return withNotionRetry(() =>
+    client.blocks.update({ block_id: blockId, ...params } as UpdateBlockParameters)
+  );
+}
+
 export async function deleteBlock(blockId: string, apiKey?: string, configPath?: string) {
   const client = getClient(apiKey, configPath);
   return withNotionRetry(() => client.blocks.delete({ block_id: blockId }));
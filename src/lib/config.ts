@@ -1,5 +1,8 @@
 import Conf from 'conf';
-import type { AppConfig, OutputFormat } from '../types/index.js';
+import type { AppConfig, ArchivedItem, OutputFormat } from '../types/index.js';
+
+// Most recent archived items kept for `block list --list-archived`
+export const MAX_ARCHIVED_ITEMS = 500;
 
 const CONFIG_SCHEMA = {
   apiKey: {
@@ -13,6 +16,9 @@ const CONFIG_SCHEMA = {
   defaultDatabase: {
     type: 'string' as const,
   },
+  archived: {
+    type: 'array' as const,
+  },
 };
 
 let configInstance: Conf<AppConfig> | null = null;
@@ -73,6 +79,22 @@ export function clearDefaultDatabase(configPath?: string): void {
   config.delete('defaultDatabase');
 }
 
+export function getArchivedItems(configPath?: string): ArchivedItem[] {
+  const config = getConfig(configPath);
+  return config.get('archived') ?? [];
+}
+
+export function recordArchivedItem(item: ArchivedItem, configPath?: string): void {
+  const config = getConfig(configPath);
+  const items = getArchivedItems(configPath).filter((existing) => !sameId(existing.id, item.id));
+  config.set('archived', [...items, item].slice(-MAX_ARCHIVED_ITEMS));
+}
+
+export function forgetArchivedItem(id: string, configPath?: string): void {
+  const config = getConfig(configPath);
+  config.set('archived', getArchivedItems(configPath).filter((item) => !sameId(item.id, id)));
+}
+
 export function getConfigPath(configPath?: string): string {
   const config = getConfig(configPath);
   return config.path;
@@ -86,3 +108,7 @@ export function getAllConfig(configPath?: string): AppConfig {
     defaultDatabase: config.get('defaultDatabase'),
   };
 }
+
+function sameId(a: string, b: string): boolean {
+  return a.replace(/-/g, '').toLowerCase() === b.replace(/-/g, '').toLowerCase();
+}
@@ -0,0 +1,115 @@
+// Delimited text as spreadsheets read and write it (RFC 4180 quoting).
+// TSV uses the same quoting with a tab separator.
+
+export type Separator = ',' | '\t';
+
+export function formatDelimited(rows: string[][], separator: Separator = ','): string {
+  return rows.map((row) => row.map((cell) => quoteCell(cell, separator)).join(separator)).join('\n') + '\n';
+}
+
+function quoteCell(cell: string, separator: Separator): string {
+  if (!cell.includes(separator) && !/["\r\n]/.test(cell) && cell.trim() === cell) return cell;
+  return `"${cell.replace(/"/g, '""')}"`;
+}
+
+export interface DelimitedRecord {
+  cells: string[];
+  // Line the record starts on (1-based); quoted cells can span lines
+  line: number;
+}
+
+export function parseDelimited(text: string, separator: Separator = ','): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const source = text.replace(/^\uFEFF/, '');
+  const endRecord = () => {
+    cells.push(cell);
+    // Blank lines are not records
+    if (cells.length > 1 || cells[0] !== '') records.push({ cells, line: start });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted cell starting on line ${start}.`);
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+
+  return records;
+}
+
+// Cells holding several entries (tags, people, relations) join them with a
+// delimiter. Entries that contain it or start with a quote are quoted like
+// cells so titles with commas survive a round trip.
+export function joinList(items: string[], delimiter: string): string {
+  const separator = delimiter.trim() || delimiter;
+  return items
+    .map((item) => item.includes(separator) || item.trimStart().startsWith('"')
+      ? `"${item.replace(/"/g, '""')}"`
+      : item)
+    .join(delimiter);
+}
+
+export function splitList(text: string, delimiter: string): string[] {
+  if (delimiter === '') throw new Error('The list delimiter cannot be empty.');
+  const quoted = new RegExp(`\\s*"((?:[^"]|"")*)"\\s*(?=${escapeRegExp(delimiter)}|$)`, 'y');
+  const items: string[] = [];
+  let index = 0;
+
+  while (index <= text.length) {
+    quoted.lastIndex = index;
+    const match = quoted.exec(text);
+    let end: number;
+    if (match) {
+      items.push(match[1].replace(/""/g, '"'));
+      end = quoted.lastIndex;
+    } else {
+      end = text.indexOf(delimiter, index);
+      if (end < 0) end = text.length;
+      items.push(text.slice(index, end).trim());
+    }
+    index = end + delimiter.length;
+  }
+
+  return items.filter((item) => item.length > 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
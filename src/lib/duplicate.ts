@@ -0,0 +1,211 @@
+import type { BlockObjectRequest, CreatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { createPageWithChildren, DEFAULT_BATCH_SIZE, DEFAULT_DELAY_MS, fetchBlockTree } from './blocks.js';
+import { getPage } from './client.js';
+import { extractPageTitle } from './output.js';
+import { propertyToRequest, richTextToRequest, textToRichText } from './properties.js';
+import type { BlockWithChildren, PageObjectResponse } from '../types/index.js';
+
+// Block types that accept children when created
+const PARENT_TYPES = new Set([
+  'paragraph', 'bulleted_list_item', 'numbered_list_item', 'to_do', 'toggle',
+  'quote', 'callout', 'heading_1', 'heading_2', 'heading_3', 'table',
+  'column_list', 'column', 'synced_block',
+]);
+
+const MEDIA_TYPES = new Set(['image', 'video', 'pdf', 'audio', 'file']);
+
+export interface DuplicateParent {
+  type: 'page_id' | 'database_id';
+  id: string;
+}
+
+export interface DuplicateOptions {
+  title?: string;
+  includeChildPages?: boolean;
+}
+
+export interface DuplicatedPage {
+  old_id: string;
+  new_id: string;
+  title: string;
+}
+
+export interface DuplicateResult {
+  page: PageObjectResponse;
+  // The page itself first, then every copied sub-page
+  copies: DuplicatedPage[];
+  warnings: string[];
+}
+
+// Creates a copy of a page (properties, icon, cover and all nested blocks)
+// under a new parent. Sub-pages are copied too with includeChildPages and
+// are added after the copied content.
+export async function duplicatePage(
+  pageId: string,
+  parent: DuplicateParent,
+  options: DuplicateOptions = {},
+  apiKey?: string,
+  configPath?: string
+): Promise<DuplicateResult> {
+  const source = await getPage(pageId, apiKey, configPath) as PageObjectResponse;
+  const blocks = await fetchBlockTree(pageId, Infinity, apiKey, configPath);
+  const warnings: string[] = [];
+
+  const params = duplicatePageParams(source, parent, options.title, warnings);
+  const children = blocksToRequests(blocks, warnings);
+  const page = await createPageWithChildren(params, children, DEFAULT_BATCH_SIZE, DEFAULT_DELAY_MS, apiKey, configPath);
+
+  const copies: DuplicatedPage[] = [{ old_id: source.id, new_id: page.id, title: extractPageTitle(page) }];
+  if (options.includeChildPages) {
+    for (const child of findChildPages(blocks)) {
+      const copy = await duplicatePage(
+        child.id,
+        { type: 'page_id', id: page.id },
+        { includeChildPages: true },
+        apiKey,
+        configPath
+      );
+      copies.push(...copy.copies);
+      warnings.push(...copy.warnings);
+    }
+  }
+
+  return { page, copies, warnings };
+}
+
+export function duplicatePageParams(
+  source: PageObjectResponse,
+  parent: DuplicateParent,
+  title: string | undefined,
+  warnings: string[] = []
+): CreatePageParameters {
+  const params: CreatePageParameters = parent.type === 'database_id'
+    ? { parent: { type: 'database_id', database_id: parent.id }, properties: {} }
+    : { parent: { type: 'page_id', page_id: parent.id }, properties: {} };
+
+  for (const [name, prop] of Object.entries(source.properties)) {
+    if (prop.type === 'title') {
+      // Pages under a page only have a title, always named "title"
+      const key = parent.type === 'database_id' ? name : 'title';
+      params.properties[key] = title !== undefined
+        ? { title: textToRichText(title) }
+        : { title: richTextToRequest(prop.title) };
+      continue;
+    }
+
+    if (parent.type !== 'database_id') continue;
+    const value = propertyToRequest(prop);
+    if (value) params.properties[name] = value;
+  }
+
+  if (parent.type !== 'database_id' && Object.keys(source.properties).length > 1) {
+    warnings.push('Parent is a page, so only the title was copied from the page properties.');
+  }
+
+  if (source.icon?.type === 'emoji') {
+    params.icon = { type: 'emoji', emoji: source.icon.emoji };
+  } else if (source.icon?.type === 'external') {
+    params.icon = { type: 'external', external: { url: source.icon.external.url } };
+  }
+
+  if (source.cover?.type === 'external') {
+    params.cover = { type: 'external', external: { url: source.cover.external.url } };
+  } else if (source.cover) {
+    warnings.push('The cover is an uploaded file and was not copied.');
+  }
+
+  return params;
+}
+
+export function blocksToRequests(blocks: BlockWithChildren[], warnings: string[] = []): BlockObjectRequest[] {
+  return blocks.flatMap((block) => {
+    const request = blockToRequest(block, warnings);
+    return request ? [request] : [];
+  });
+}
+
+// Strips the read-only parts of a fetched block (ids, timestamps, plain_text…)
+// so it can be sent back to the API. Returns null for blocks that cannot be
+// created, adding a warning.
+export function blockToRequest(block: BlockWithChildren, warnings: string[] = []): BlockObjectRequest | null {
+  const type = block.type;
+  const data = (block as Record<string, unknown>)[type] as Record<string, unknown>;
+
+  switch (type) {
+    case 'child_page':
+    case 'child_database':
+      // Copied separately (pages) or not at all (databases)
+      if (type === 'child_database') {
+        warnings.push(`Skipped database "${block.child_database.title}": databases are not duplicated.`);
+      }
+      return null;
+
+    case 'unsupported':
+    case 'template':
+      warnings.push(`Skipped ${type} block ${block.id}: it cannot be created through the API.`);
+      return null;
+
+    case 'link_preview':
+      return { object: 'block', type: 'bookmark', bookmark: { url: block.link_preview.url } };
+
+    case 'link_to_page': {
+      const target = block.link_to_page;
+      if (target.type === 'page_id') {
+        return { object: 'block', type: 'link_to_page', link_to_page: { type: 'page_id', page_id: target.page_id } };
+      }
+      if (target.type === 'database_id') {
+        return {
+          object: 'block',
+          type: 'link_to_page',
+          link_to_page: { type: 'database_id', database_id: target.database_id },
+        };
+      }
+      return null;
+    }
+
+    case 'synced_block':
+      // A reference to another synced block only needs the original's ID
+      if (block.synced_block.synced_from) {
+        return {
+          object: 'block',
+          type: 'synced_block',
+          synced_block: { synced_from: { block_id: block.synced_block.synced_from.block_id } },
+        };
+      }
+      break;
+  }
+
+  if (MEDIA_TYPES.has(type) && data.type !== 'external') {
+    warnings.push(`Skipped uploaded ${type} ${block.id}: uploaded files cannot be copied through the API.`);
+    return null;
+  }
+
+  const request: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'rich_text' || key === 'caption') {
+      request[key] = richTextToRequest(value as Parameters<typeof richTextToRequest>[0]);
+    } else if (key === 'cells') {
+      request.cells = (value as Array<Parameters<typeof richTextToRequest>[0]>).map(richTextToRequest);
+    } else if (key === 'icon') {
+      // Uploaded icons cannot be reused; keep emoji and external ones
+      const icon = value as { type?: string } | null;
+      if (icon?.type === 'emoji' || icon?.type === 'external') request.icon = icon;
+    } else if (key !== 'children') {
+      request[key] = value;
+    }
+  }
+
+  if (block.children && block.children.length > 0 && PARENT_TYPES.has(type)) {
+    request.children = blocksToRequests(block.children, warnings);
+  }
+
+  return { object: 'block', type, [type]: request } as BlockObjectRequest;
+}
+
+// child_page blocks can sit inside toggles, columns, etc.
+function findChildPages(blocks: BlockWithChildren[]): BlockWithChildren[] {
+  return blocks.flatMap((block) => {
+    if (block.type === 'child_page') return [block];
+    return block.children ? findChildPages(block.children) : [];
+  });
+}
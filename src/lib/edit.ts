@@ -0,0 +1,352 @@
+import type { BlockObjectRequest, UpdateBlockParameters } from '@notionhq/client/build/src/api-endpoints';
+import { appendBlockChildrenInBatches, DEFAULT_BATCH_SIZE, DEFAULT_DELAY_MS } from './blocks.js';
+import { deleteBlock, updateBlock } from './client.js';
+import { blocksToMarkdown, markdownToBlocks, type MentionLookup } from './markdown.js';
+import type { BlockObjectResponse, BlockWithChildren } from '../types/index.js';
+
+// Blocks that survive a Markdown round trip. Everything else (sub-pages,
+// synced blocks, columns, uploaded files…) is shown as a placeholder line
+// and can only be kept or removed.
+const EDITABLE_TYPES = new Set([
+  'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item',
+  'numbered_list_item', 'to_do', 'toggle', 'quote', 'callout', 'code',
+  'equation', 'divider', 'table', 'table_row', 'bookmark', 'embed',
+  'image', 'video', 'pdf', 'audio', 'file',
+]);
+
+// Types whose content can be changed in place with blocks.update
+const UPDATABLE_TYPES = new Set([
+  'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item',
+  'numbered_list_item', 'to_do', 'toggle', 'quote', 'callout', 'code', 'equation',
+]);
+
+const PLACEHOLDER_PATTERN = /^<!-- notion:([a-z_]+) ([0-9a-f-]{32,36})(?: .*)? -->$/;
+
+export interface EditPlan {
+  updates: Array<{ id: string; block: BlockObjectRequest }>;
+  // Each run of new blocks goes after an existing block (or at the end of an empty page)
+  inserts: Array<{ after?: string; blocks: BlockObjectRequest[] }>;
+  deletes: string[];
+  warnings: string[];
+}
+
+// One top-level block as it appears in the editable document. A Notion block
+// can convert to several request blocks (or none, e.g. an empty paragraph).
+interface SourceUnit {
+  key: string;
+  block?: BlockObjectRequest;
+  source: BlockWithChildren;
+  groupSize: number;
+}
+
+interface EditedUnit {
+  key: string;
+  block?: BlockObjectRequest;
+  placeholderId?: string;
+}
+
+type Entry =
+  | { kind: 'keep'; source: BlockWithChildren; blocks: BlockObjectRequest[] }
+  | { kind: 'update'; source: BlockWithChildren; block: BlockObjectRequest }
+  | { kind: 'new'; block: BlockObjectRequest };
+
+export function renderEditableDocument(blocks: BlockWithChildren[]): string {
+  const segments = blocks
+    .map((block) => (isEditable(block) ? blocksToMarkdown([block]).trimEnd() : placeholder(block)))
+    .filter((segment) => segment.length > 0);
+  return segments.length > 0 ? `${segments.join('\n\n')}\n` : '';
+}
+
+export function planPageEdit(
+  blocks: BlockWithChildren[],
+  edited: string,
+  mentions: MentionLookup = {}
+): EditPlan {
+  const original = toSourceUnits(blocks, mentions);
+  const known = new Map(blocks.map((block) => [compactId(block.id), block]));
+  const changed = toEditedUnits(edited, known, mentions);
+  const pairs = alignUnits(original, changed);
+
+  // A block that converted to several units is only kept when all of them are
+  const keptUnits = new Map<string, number>();
+  for (const [i] of pairs) {
+    const id = original[i].source.id;
+    keptUnits.set(id, (keptUnits.get(id) ?? 0) + 1);
+  }
+  const kept = pairs.filter(([i]) => keptUnits.get(original[i].source.id) === original[i].groupSize);
+
+  const entries: Entry[] = [];
+  const deletes: BlockWithChildren[] = [];
+  const warnings: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  const flushGap = (endI: number, endJ: number) => {
+    const removed: BlockWithChildren[] = [];
+    for (; i < endI; i++) {
+      const source = original[i].source;
+      if (!removed.includes(source)) removed.push(source);
+    }
+    const added = changed.slice(j, endJ);
+    j = endJ;
+
+    // Changed blocks are updated in place when they line up with a removed
+    // block of the same type; anything else is deleted and inserted.
+    const updated = new Set<BlockWithChildren>();
+    for (const [index, unit] of added.entries()) {
+      if (!unit.block) {
+        throw new Error(
+          `Block ${unit.placeholderId} was moved. Blocks shown as placeholders can be kept or removed, not moved.`
+        );
+      }
+      const source = removed[index];
+      if (source && canUpdate(source, unit.block)) {
+        entries.push({ kind: 'update', source, block: unit.block });
+        updated.add(source);
+      } else {
+        entries.push({ kind: 'new', block: unit.block });
+      }
+    }
+    deletes.push(...removed.filter((source) => !updated.has(source)));
+  };
+
+  for (const [pairI, pairJ] of kept) {
+    // Units of the same source block all match, so keep it once
+    flushGap(pairI, pairJ);
+    const source = original[pairI].source;
+    const block = original[pairI].block;
+    const previous = entries[entries.length - 1];
+    if (previous?.kind === 'keep' && previous.source === source) {
+      if (block) previous.blocks.push(block);
+    } else {
+      entries.push({ kind: 'keep', source, blocks: block ? [block] : [] });
+    }
+    i = pairI + 1;
+    j = pairJ + 1;
+  }
+  flushGap(original.length, changed.length);
+
+  // Blocks without units (empty paragraphs) are never in the document: keep them
+  const represented = new Set(original.map((unit) => unit.source.id));
+  const first = blocks[0];
+
+  // Notion can only insert after an existing block. New content at the top
+  // goes after the first block, which is then recreated below it.
+  if (entries[0]?.kind === 'new' && first && represented.has(first.id)) {
+    const index = entries.findIndex((entry) => entry.kind !== 'new' && entry.source.id === first.id);
+    const entry = entries[index];
+    if (entry?.kind === 'keep') {
+      if (!isEditable(entry.source)) {
+        throw new Error(
+          `Cannot insert content above the first block (${entry.source.type}); Notion can only add blocks after existing ones.`
+        );
+      }
+      entries.splice(index, 1, ...entry.blocks.map((block) => ({ kind: 'new' as const, block })));
+      deletes.push(entry.source);
+    } else if (entry?.kind === 'update') {
+      entries[index] = { kind: 'new', block: entry.block };
+      deletes.push(entry.source);
+    }
+  }
+
+  const plan: EditPlan = { updates: [], inserts: [], deletes: [], warnings };
+  let anchor: string | undefined = first?.id;
+  let run: BlockObjectRequest[] = [];
+
+  const flushRun = () => {
+    if (run.length > 0) plan.inserts.push({ after: anchor, blocks: run });
+    run = [];
+  };
+
+  for (const entry of entries) {
+    if (entry.kind === 'new') {
+      run.push(entry.block);
+      continue;
+    }
+    flushRun();
+    anchor = entry.source.id;
+    if (entry.kind === 'update') {
+      plan.updates.push({ id: entry.source.id, block: entry.block });
+    }
+  }
+  flushRun();
+
+  for (const source of deletes) {
+    if (source.type === 'child_page' || source.type === 'child_database') {
+      const title = source.type === 'child_page' ? source.child_page.title : source.child_database.title;
+      warnings.push(`Not deleting "${title}" (${source.type}); use \`onotion page delete ${source.id}\` instead.`);
+      continue;
+    }
+    if (!plan.deletes.includes(source.id)) plan.deletes.push(source.id);
+  }
+
+  return plan;
+}
+
+export async function applyEditPlan(
+  pageId: string,
+  plan: EditPlan,
+  apiKey?: string,
+  configPath?: string
+): Promise<void> {
+  for (const { id, block } of plan.updates) {
+    const type = block.type as string;
+    const params = { [type]: (block as Record<string, unknown>)[type] } as Omit<UpdateBlockParameters, 'block_id'>;
+    await updateBlock(id, params, apiKey, configPath);
+  }
+
+  for (const { after, blocks } of plan.inserts) {
+    await appendBlockChildrenInBatches(
+      pageId,
+      blocks,
+      DEFAULT_BATCH_SIZE,
+      DEFAULT_DELAY_MS,
+      apiKey,
+      configPath,
+      after
+    );
+  }
+
+  for (const id of plan.deletes) {
+    await deleteBlock(id, apiKey, configPath);
+  }
+}
+
+export interface ReplacePlan {
+  kept: BlockObjectResponse[];
+  removed: BlockObjectResponse[];
+}
+
+// `page replace` archives everything it does not keep, so empty new content
+// (an empty file or stdin) is refused unless the caller asks to clear the page.
+export function planPageReplace(
+  existing: BlockObjectResponse[],
+  children: BlockObjectRequest[],
+  options: { keepChildrenPages?: boolean; allowEmpty?: boolean } = {}
+): ReplacePlan {
+  if (children.length === 0 && !options.allowEmpty) {
+    throw new Error('The new content has no blocks; pass --allow-empty to clear the page.');
+  }
+
+  const isChildPage = (block: BlockObjectResponse) =>
+    block.type === 'child_page' || block.type === 'child_database';
+  if (!options.keepChildrenPages) {
+    return { kept: [], removed: existing };
+  }
+  return {
+    kept: existing.filter(isChildPage),
+    removed: existing.filter((block) => !isChildPage(block)),
+  };
+}
+
+function toSourceUnits(blocks: BlockWithChildren[], mentions: MentionLookup): SourceUnit[] {
+  return blocks.flatMap((source): SourceUnit[] => {
+    if (!isEditable(source)) {
+      return [{ key: placeholderKey(source.id), source, groupSize: 1 }];
+    }
+    const converted = markdownToBlocks(blocksToMarkdown([source]), mentions);
+    return converted.map((block) => ({ key: JSON.stringify(block), block, source, groupSize: converted.length }));
+  });
+}
+
+function toEditedUnits(
+  text: string,
+  known: Map<string, BlockWithChildren>,
+  mentions: MentionLookup
+): EditedUnit[] {
+  const units: EditedUnit[] = [];
+  let chunk: string[] = [];
+
+  const flush = () => {
+    for (const block of markdownToBlocks(chunk.join('\n'), mentions)) {
+      units.push({ key: JSON.stringify(block), block });
+    }
+    chunk = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = PLACEHOLDER_PATTERN.exec(line.trim());
+    if (!match) {
+      chunk.push(line);
+      continue;
+    }
+    flush();
+    const source = known.get(compactId(match[2]));
+    if (!source) {
+      throw new Error(`Unknown block placeholder: ${line.trim()}`);
+    }
+    units.push({ key: placeholderKey(source.id), placeholderId: source.id });
+  }
+  flush();
+
+  return units;
+}
+
+// Longest common subsequence of unit keys: the [originalIndex, editedIndex]
+// pairs that stay as they are.
+function alignUnits(original: SourceUnit[], edited: EditedUnit[]): Array<[number, number]> {
+  const n = original.length;
+  const m = edited.length;
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = original[i].key === edited[j].key
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (original[i].key === edited[j].key) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function canUpdate(source: BlockWithChildren, block: BlockObjectRequest): boolean {
+  if (source.type !== block.type || !UPDATABLE_TYPES.has(source.type) || source.has_children) {
+    return false;
+  }
+  const data = (block as Record<string, unknown>)[block.type as string] as { children?: unknown[] } | undefined;
+  return !data?.children?.length;
+}
+
+function isEditable(block: BlockWithChildren): boolean {
+  if (!EDITABLE_TYPES.has(block.type)) return false;
+
+  // Uploaded files cannot be recreated from their expiring URLs
+  const data = (block as Record<string, unknown>)[block.type] as { type?: string } | undefined;
+  if (['image', 'video', 'pdf', 'audio', 'file'].includes(block.type) && data?.type !== 'external') {
+    return false;
+  }
+
+  return (block.children ?? []).every(isEditable);
+}
+
+function placeholder(block: BlockWithChildren): string {
+  const label = block.type === 'child_page'
+    ? block.child_page.title
+    : block.type === 'child_database'
+      ? block.child_database.title
+      : '';
+  return `<!-- notion:${block.type} ${block.id}${label ? ` ${label.replace(/--/g, '-')}` : ''} -->`;
+}
+
+function placeholderKey(id: string): string {
+  return `placeholder:${compactId(id)}`;
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
@@ -0,0 +1,240 @@
+import type { PropertyItemObjectResponse } from '@notionhq/client/build/src/api-endpoints';
+import { getPage, getPageProperty } from './client.js';
+import { extractPageTitle, extractPropertyValue } from './output.js';
+import { fromPropertyValue } from './properties.js';
+import type { PageObjectResponse, PropertyValue } from '../types/index.js';
+
+export interface RelatedPage {
+  id: string;
+  title: string | null;
+}
+
+export interface Person {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface FileLink {
+  name: string;
+  url: string;
+}
+
+// The complete value of a page property: the full text for title and
+// rich_text, every entry for relations, people and files, and each element
+// of a rollup array. Other types hold their plain value.
+export interface ExpandedProperty {
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+// Page objects cut relations, people and rich text off at 25 entries and
+// only summarize rollup arrays; the property item endpoint has all of it.
+export async function expandPageProperty(
+  page: PageObjectResponse,
+  name: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<ExpandedProperty> {
+  const match = findPageProperty(page, name);
+  if (!match) {
+    throw new Error(`Unknown property "${name}". Properties: ${Object.keys(page.properties).join(', ')}`);
+  }
+
+  const titles = new Map<string, string | null>();
+  return expandProperty(page.id, match.name, match.property, titles, apiKey, configPath);
+}
+
+export async function expandPageProperties(
+  page: PageObjectResponse,
+  apiKey?: string,
+  configPath?: string
+): Promise<ExpandedProperty[]> {
+  const titles = new Map<string, string | null>();
+  const expanded: ExpandedProperty[] = [];
+
+  for (const [name, property] of Object.entries(page.properties)) {
+    expanded.push(await expandProperty(page.id, name, property, titles, apiKey, configPath));
+  }
+
+  return expanded;
+}
+
+// IDs of every related page or person in a relation or people property,
+// without looking up titles
+export async function listPropertyItemIds(
+  pageId: string,
+  propertyId: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<string[]> {
+  const { items } = await fetchPropertyItems(pageId, propertyId, apiKey, configPath);
+  return items.flatMap((item) => {
+    if (item.type === 'relation') return [item.relation.id];
+    if (item.type === 'people') return [item.people.id];
+    return [];
+  });
+}
+
+// One line per entry, for table output
+export function formatExpandedValue(expanded: ExpandedProperty): string[] {
+  const { value } = expanded;
+  if (!Array.isArray(value)) {
+    if (value === null || value === undefined) return [];
+    if (typeof value === 'object' && 'start' in value) {
+      const range = value as { start: string; end: string };
+      return [`${range.start} → ${range.end}`];
+    }
+    if (typeof value === 'object') return [JSON.stringify(value)];
+    return [String(value)];
+  }
+
+  return value.map((entry) => {
+    switch (expanded.type) {
+      case 'relation': {
+        const page = entry as RelatedPage;
+        return page.title ? `${page.title} (${page.id})` : page.id;
+      }
+      case 'people': {
+        const person = entry as Person;
+        const label = person.name ?? person.id;
+        return person.email ? `${label} <${person.email}>` : label;
+      }
+      case 'files': {
+        const file = entry as FileLink;
+        return file.name && file.name !== file.url ? `${file.name}: ${file.url}` : file.url;
+      }
+      default:
+        return typeof entry === 'object' && entry !== null ? JSON.stringify(entry) : String(entry);
+    }
+  });
+}
+
+async function expandProperty(
+  pageId: string,
+  name: string,
+  property: PropertyValue,
+  titles: Map<string, string | null>,
+  apiKey?: string,
+  configPath?: string
+): Promise<ExpandedProperty> {
+  // Files are never paginated
+  if (property.type === 'files') {
+    return { name, type: property.type, value: property.files.map(toFileLink) };
+  }
+
+  const { items, rollup } = await fetchPropertyItems(pageId, property.id, apiKey, configPath);
+
+  switch (property.type) {
+    case 'title':
+    case 'rich_text':
+      return { name, type: property.type, value: items.map(itemText).join('') };
+
+    case 'relation': {
+      const pages: RelatedPage[] = [];
+      for (const item of items) {
+        if (item.type !== 'relation') continue;
+        pages.push({ id: item.relation.id, title: await relatedPageTitle(item.relation.id, titles, apiKey, configPath) });
+      }
+      return { name, type: property.type, value: pages };
+    }
+
+    case 'people':
+      return { name, type: property.type, value: items.flatMap((item) => (item.type === 'people' ? [toPerson(item.people)] : [])) };
+
+    case 'rollup': {
+      if (rollup?.type !== 'array') {
+        return { name, type: property.type, value: rollup ? fromPropertyValue({ ...property, rollup } as PropertyValue) : null };
+      }
+      const elements: string[] = [];
+      for (const item of items) {
+        elements.push(item.type === 'relation'
+          ? (await relatedPageTitle(item.relation.id, titles, apiKey, configPath)) ?? item.relation.id
+          : itemText(item));
+      }
+      return { name, type: property.type, value: elements };
+    }
+
+    default:
+      return { name, type: property.type, value: items[0] ? fromPropertyValue(items[0] as PropertyValue) : null };
+  }
+}
+
+// Follows next_cursor until the whole value is read. Single-value properties
+// come back as one item; rollups also report their aggregate.
+async function fetchPropertyItems(
+  pageId: string,
+  propertyId: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<{ items: PropertyItemObjectResponse[]; rollup?: { type: string } & Record<string, unknown> }> {
+  const items: PropertyItemObjectResponse[] = [];
+  let rollup: ({ type: string } & Record<string, unknown>) | undefined;
+  let cursor: string | undefined;
+
+  do {
+    const response = await getPageProperty(pageId, propertyId, cursor, apiKey, configPath);
+    if (response.object !== 'list') {
+      items.push(response);
+      if (response.type === 'rollup') rollup = response.rollup;
+      break;
+    }
+
+    items.push(...response.results);
+    if (response.property_item.type === 'rollup') rollup = response.property_item.rollup;
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return { items, rollup };
+}
+
+// Text of a single property item; title and rich_text items hold one rich
+// text object each, the rest have the shape of a property value
+function itemText(item: PropertyItemObjectResponse): string {
+  if (item.type === 'title') return item.title.plain_text;
+  if (item.type === 'rich_text') return item.rich_text.plain_text;
+  if (item.type === 'people') return toPerson(item.people).name ?? item.people.id;
+  return extractPropertyValue(item as unknown as PropertyValue);
+}
+
+// Related pages the integration cannot read keep a null title
+async function relatedPageTitle(
+  pageId: string,
+  titles: Map<string, string | null>,
+  apiKey?: string,
+  configPath?: string
+): Promise<string | null> {
+  if (!titles.has(pageId)) {
+    try {
+      const page = await getPage(pageId, apiKey, configPath) as PageObjectResponse;
+      titles.set(pageId, extractPageTitle(page));
+    } catch {
+      titles.set(pageId, null);
+    }
+  }
+  return titles.get(pageId) ?? null;
+}
+
+function toPerson(user: { id: string; name?: string | null; type?: string; person?: { email?: string } }): Person {
+  return {
+    id: user.id,
+    name: user.name ?? null,
+    email: user.type === 'person' ? user.person?.email ?? null : null,
+  };
+}
+
+function toFileLink(file: Extract<PropertyValue, { type: 'files' }>['files'][number]): FileLink {
+  const url = 'external' in file ? file.external.url : file.file.url;
+  return { name: file.name, url };
+}
+
+function findPageProperty(
+  page: PageObjectResponse,
+  name: string
+): { name: string; property: PropertyValue } | undefined {
+  if (page.properties[name]) return { name, property: page.properties[name] };
+  const lower = name.trim().toLowerCase();
+  const match = Object.keys(page.properties).find((key) => key.toLowerCase() === lower);
+  return match ? { name: match, property: page.properties[match] } : undefined;
+}
@@ -0,0 +1,243 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, posix } from 'node:path';
+import { fetchBlockTree } from './blocks.js';
+import { getDatabase, getPage, queryDatabase } from './client.js';
+import { serializeFrontMatter } from './frontmatter.js';
+import { blocksToMarkdown } from './markdown.js';
+import { extractDatabaseTitle, extractPageTitle } from './output.js';
+import { fromPropertyValue } from './properties.js';
+import type {
+  BlockWithChildren,
+  DatabaseObjectResponse,
+  PageObjectResponse,
+} from '../types/index.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface ExportEntry {
+  id: string;
+  type: 'page' | 'database';
+  title: string;
+  // Relative to the output directory; databases are folders and end in "/"
+  path: string;
+  url: string;
+  parent_id: string | null;
+}
+
+export interface ExportManifest {
+  root_id: string;
+  exported_at: string;
+  entries: ExportEntry[];
+}
+
+export interface ExportResult {
+  manifest: ExportManifest;
+  warnings: string[];
+}
+
+interface ExportedPage {
+  entry: ExportEntry;
+  page: PageObjectResponse;
+  blocks: BlockWithChildren[];
+}
+
+interface ExportState {
+  pages: ExportedPage[];
+  entries: ExportEntry[];
+  usedPaths: Set<string>;
+  warnings: string[];
+  apiKey?: string;
+  configPath?: string;
+  onProgress?: (entry: ExportEntry) => void;
+}
+
+// Exports a page and every child_page/child_database below it. A page is
+// written to "<slug>.md" and its descendants to the "<slug>/" folder next to it.
+export async function exportPageTree(
+  pageId: string,
+  outDir: string,
+  apiKey?: string,
+  configPath?: string,
+  onProgress?: (entry: ExportEntry) => void
+): Promise<ExportResult> {
+  const state: ExportState = {
+    pages: [],
+    entries: [],
+    usedPaths: new Set(),
+    warnings: [],
+    apiKey,
+    configPath,
+    onProgress,
+  };
+
+  const root = await getPage(pageId, apiKey, configPath) as PageObjectResponse;
+  await collectPage(root, '', null, state);
+
+  const paths = new Map(state.entries.map((entry) => [compactId(entry.id), entry.path]));
+  for (const { entry, page, blocks } of state.pages) {
+    const body = rewriteNotionLinks(blocksToMarkdown(blocks), entry.path, paths);
+    const file = join(outDir, ...entry.path.split('/'));
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, serializeFrontMatter(pageFrontMatter(page, entry.title), body));
+  }
+
+  const manifest: ExportManifest = {
+    root_id: root.id,
+    exported_at: new Date().toISOString(),
+    entries: state.entries,
+  };
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  return { manifest, warnings: state.warnings };
+}
+
+export function pageFrontMatter(page: PageObjectResponse, title: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    title,
+    notion_id: page.id,
+    notion_url: page.url,
+    last_edited_time: page.last_edited_time,
+  };
+
+  if (page.icon?.type === 'emoji') data.icon = page.icon.emoji;
+  if (page.icon?.type === 'external') data.icon = page.icon.external.url;
+  if (page.cover?.type === 'external') data.cover = page.cover.external.url;
+
+  for (const [name, prop] of Object.entries(page.properties)) {
+    if (prop.type === 'title' || name in data) continue;
+    data[name] = fromPropertyValue(prop);
+  }
+
+  return data;
+}
+
+// Turns links to exported pages (notion.so URLs, page mentions) into paths
+// relative to the file being written. Other links are left untouched.
+export function rewriteNotionLinks(markdown: string, fromPath: string, paths: Map<string, string>): string {
+  return markdown.replace(/https?:\/\/(?:www\.)?notion\.so\/[^\s()<>\]]+/g, (url) => {
+    const match = /([0-9a-f]{32})(?:[?#].*)?$/i.exec(url.replace(/-/g, ''));
+    const target = match ? paths.get(match[1].toLowerCase()) : undefined;
+    return target ? relativeLink(fromPath, target) : url;
+  });
+}
+
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+  return slug || 'untitled';
+}
+
+async function collectPage(
+  page: PageObjectResponse,
+  dir: string,
+  parentId: string | null,
+  state: ExportState
+): Promise<void> {
+  const title = extractPageTitle(page);
+  const slug = uniqueSlug(title, dir, state.usedPaths);
+  const entry: ExportEntry = {
+    id: page.id,
+    type: 'page',
+    title,
+    path: posix.join(dir, `${slug}.md`),
+    url: page.url,
+    parent_id: parentId,
+  };
+
+  const blocks = await fetchBlockTree(page.id, Infinity, state.apiKey, state.configPath);
+  state.entries.push(entry);
+  state.pages.push({ entry, page, blocks });
+  state.onProgress?.(entry);
+
+  const childDir = posix.join(dir, slug);
+  for (const block of findChildBlocks(blocks)) {
+    if (block.type === 'child_page') {
+      try {
+        const child = await getPage(block.id, state.apiKey, state.configPath) as PageObjectResponse;
+        await collectPage(child, childDir, page.id, state);
+      } catch (error) {
+        state.warnings.push(`Skipped page "${block.child_page.title}" (${block.id}): ${(error as Error).message}`);
+      }
+    } else if (block.type === 'child_database') {
+      try {
+        await collectDatabase(block.id, childDir, page.id, state);
+      } catch (error) {
+        state.warnings.push(`Skipped database "${block.child_database.title}" (${block.id}): ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+async function collectDatabase(
+  databaseId: string,
+  dir: string,
+  parentId: string,
+  state: ExportState
+): Promise<void> {
+  const database = await getDatabase(databaseId, state.apiKey, state.configPath) as DatabaseObjectResponse;
+  const title = extractDatabaseTitle(database);
+  const slug = uniqueSlug(title, dir, state.usedPaths);
+  const folder = posix.join(dir, slug);
+  const entry: ExportEntry = {
+    id: database.id,
+    type: 'database',
+    title,
+    path: `${folder}/`,
+    url: database.url,
+    parent_id: parentId,
+  };
+  state.entries.push(entry);
+  state.onProgress?.(entry);
+
+  let cursor: string | undefined;
+  do {
+    const response = await queryDatabase(
+      databaseId,
+      { start_cursor: cursor, page_size: 100 },
+      state.apiKey,
+      state.configPath
+    );
+    for (const row of response.results) {
+      if ('properties' in row) {
+        await collectPage(row as PageObjectResponse, folder, database.id, state);
+      }
+    }
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+}
+
+// child_page/child_database blocks can sit inside toggles, columns, etc.
+function findChildBlocks(blocks: BlockWithChildren[]): BlockWithChildren[] {
+  return blocks.flatMap((block) => {
+    if (block.type === 'child_page' || block.type === 'child_database') return [block];
+    return block.children ? findChildBlocks(block.children) : [];
+  });
+}
+
+// Pages and databases share the folder namespace ("a.md" lives next to "a/"),
+// so a slug is taken once it is used by either.
+function uniqueSlug(title: string, dir: string, used: Set<string>): string {
+  const base = slugify(title);
+  let slug = base;
+  for (let n = 2; used.has(posix.join(dir, slug).toLowerCase()); n++) {
+    slug = `${base}-${n}`;
+  }
+  used.add(posix.join(dir, slug).toLowerCase());
+  return slug;
+}
+
+function relativeLink(fromPath: string, toPath: string): string {
+  const relative = posix.relative(posix.dirname(fromPath), toPath) || posix.basename(toPath);
+  const link = toPath.endsWith('/') ? `${relative}/` : relative;
+  return encodeURI(link);
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
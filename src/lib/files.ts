@@ -0,0 +1,107 @@
+import { readdirSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i;
+const GLOB_CHARS = /[*?[]/;
+
+// Expands files, directories (recursively) and glob patterns into a sorted,
+// de-duplicated list of Markdown files.
+export function collectMarkdownFiles(inputs: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    if (GLOB_CHARS.test(input)) {
+      const matches = expandGlob(input);
+      if (matches.length === 0) {
+        throw new Error(`No files match: ${input}`);
+      }
+      matches.forEach((file) => files.add(file));
+      continue;
+    }
+
+    let stats;
+    try {
+      stats = statSync(input);
+    } catch {
+      throw new Error(`File not found: ${input}`);
+    }
+
+    if (stats.isDirectory()) {
+      walkFiles(input)
+        .filter((file) => MARKDOWN_EXTENSIONS.test(file))
+        .forEach((file) => files.add(file));
+    } else {
+      files.add(input);
+    }
+  }
+
+  return Array.from(files).sort();
+}
+
+function expandGlob(pattern: string): string[] {
+  const normalized = pattern.split(sep).join('/');
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const regex = globToRegExp(segments.slice(firstGlob).join('/'));
+
+  let candidates: string[];
+  try {
+    candidates = walkFiles(base);
+  } catch {
+    return [];
+  }
+
+  return candidates.filter((file) => regex.test(relative(base, file).split(sep).join('/')));
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const followedBySlash = glob[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walkFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walkFiles(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,65 @@
+import { marked, type Tokens } from 'marked';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export interface FrontMatterDocument {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const source = text.replace(/^\uFEFF/, '');
+  const match = FRONT_MATTER_PATTERN.exec(source);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (error) {
+    throw new Error(`Invalid YAML front matter: ${(error as Error).message}`);
+  }
+
+  if (data === null || data === undefined) {
+    data = {};
+  }
+
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Front matter must be a YAML mapping.');
+  }
+
+  return { data: data as Record<string, unknown>, body: source.slice(match[0].length) };
+}
+
+export function serializeFrontMatter(data: Record<string, unknown>, body: string): string {
+  const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return body;
+  return `---\n${stringifyYaml(Object.fromEntries(entries)).trimEnd()}\n---\n\n${body}`;
+}
+
+// Uses the first top-level "# " heading as the title. When it is the first
+// thing in the body it is removed so it is not repeated as the first block.
+export function extractTitleHeading(body: string): { title?: string; body: string } {
+  const source = body.replace(/\r\n?/g, '\n');
+  let offset = 0;
+  let leading = true;
+
+  for (const token of marked.lexer(source)) {
+    if (token.type === 'heading' && (token as Tokens.Heading).depth === 1) {
+      const title = (token as Tokens.Heading).text.trim();
+      if (!leading) {
+        return { title, body: source };
+      }
+      return { title, body: source.slice(offset + token.raw.length).replace(/^\s*\n/, '') };
+    }
+
+    if (token.type !== 'space') {
+      leading = false;
+    }
+    offset += token.raw.length;
+  }
+
+  return { body: source };
+}
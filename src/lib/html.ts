@@ -0,0 +1,404 @@
+import type { RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints';
+import type { BlockWithChildren } from '../types/index.js';
+
+const LIST_TAGS: Record<string, string> = {
+  bulleted_list_item: 'ul',
+  numbered_list_item: 'ol',
+  to_do: 'ul class="to-do-list"',
+};
+
+const LANGUAGE_CLASSES: Record<string, string> = {
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  'plain text': 'plaintext',
+  'visual basic': 'vb',
+  'vb.net': 'vbnet',
+  'java/c/c++/c#': 'clike',
+};
+
+export const HTML_STYLES = `body {
+  max-width: 860px;
+  margin: 2rem auto;
+  padding: 0 1rem;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  line-height: 1.6;
+  color: #37352f;
+}
+pre { padding: 1rem; overflow-x: auto; background: #f7f6f3; border-radius: 4px; }
+code { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+:not(pre) > code { padding: 0.1em 0.3em; background: rgba(135, 131, 120, 0.15); border-radius: 3px; color: #eb5757; }
+blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid currentColor; }
+aside.callout { display: flex; gap: 0.75rem; margin: 1rem 0; padding: 1rem; background: #f1f1ef; border-radius: 4px; }
+aside.callout > .callout-icon { flex: none; }
+aside.callout > .callout-content > :first-child { margin-top: 0; }
+aside.callout > .callout-content > :last-child { margin-bottom: 0; }
+details { margin: 0.5rem 0; }
+details > :not(summary) { margin-left: 1.5rem; }
+summary > h2, summary > h3, summary > h4 { display: inline; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { padding: 0.4rem 0.6rem; border: 1px solid #e9e9e7; text-align: left; vertical-align: top; }
+th { background: #f7f6f3; }
+figure { margin: 1rem 0; }
+figure img { max-width: 100%; }
+figcaption { font-size: 0.875em; color: #787774; }
+ul.to-do-list { list-style: none; padding-left: 0.25rem; }
+.column-list { display: flex; gap: 1.5rem; }
+.column-list > .column { flex: 1; min-width: 0; }
+.indented { margin-left: 1.5rem; }
+.gray { color: #787774; } .brown { color: #9f6b53; } .orange { color: #d9730d; }
+.yellow { color: #cb912f; } .green { color: #448361; } .blue { color: #337ea9; }
+.purple { color: #9065b0; } .pink { color: #c14c8a; } .red { color: #d44c47; }
+.gray_background { background: #f1f1ef; } .brown_background { background: #f4eeee; }
+.orange_background { background: #fbecdd; } .yellow_background { background: #fbf3db; }
+.green_background { background: #edf3ec; } .blue_background { background: #e7f3f8; }
+.purple_background { background: #f6f3f9; } .pink_background { background: #faf1f5; }
+.red_background { background: #fdebec; }
+`;
+
+export function blocksToHtml(blocks: BlockWithChildren[]): string {
+  const html = renderBlocks(blocks);
+  return html ? `${html}\n` : '';
+}
+
+export function richTextToHtml(items: RichTextItemResponse[]): string {
+  return items.map(renderRichTextItem).join('');
+}
+
+// Wraps rendered blocks in a complete document with the default stylesheet
+export function renderHtmlDocument(title: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<article>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    body.trimEnd(),
+    '</article>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function renderBlocks(blocks: BlockWithChildren[]): string {
+  const parts: string[] = [];
+  let list: { type: string; items: string[] } | undefined;
+
+  const closeList = () => {
+    if (!list) return;
+    const tag = LIST_TAGS[list.type];
+    parts.push(`<${tag}>\n${list.items.join('\n')}\n</${tag.split(' ')[0]}>`);
+    list = undefined;
+  };
+
+  for (const block of blocks) {
+    if (block.type in LIST_TAGS) {
+      if (list?.type !== block.type) {
+        closeList();
+        list = { type: block.type, items: [] };
+      }
+      list.items.push(renderListItem(block));
+      continue;
+    }
+
+    closeList();
+    const rendered = renderBlock(block);
+    if (rendered !== null) parts.push(rendered);
+  }
+
+  closeList();
+  return parts.join('\n');
+}
+
+function renderBlock(block: BlockWithChildren): string | null {
+  switch (block.type) {
+    case 'paragraph': {
+      const text = richTextToHtml(block.paragraph.rich_text);
+      return withIndentedChildren(`<p${colorClass(block.paragraph.color)}>${text}</p>`, block);
+    }
+
+    case 'heading_1':
+      return renderHeading('h2', block.heading_1, block);
+
+    case 'heading_2':
+      return renderHeading('h3', block.heading_2, block);
+
+    case 'heading_3':
+      return renderHeading('h4', block.heading_3, block);
+
+    case 'toggle':
+      return renderDetails(
+        `<summary${colorClass(block.toggle.color)}>${richTextToHtml(block.toggle.rich_text)}</summary>`,
+        block
+      );
+
+    case 'quote': {
+      const text = richTextToHtml(block.quote.rich_text);
+      const body = renderChildren(block);
+      return `<blockquote${colorClass(block.quote.color)}>\n<p>${text}</p>${body ? `\n${body}` : ''}\n</blockquote>`;
+    }
+
+    case 'callout': {
+      const icon = block.callout.icon?.type === 'emoji'
+        ? block.callout.icon.emoji
+        : block.callout.icon?.type === 'external'
+          ? `<img src="${escapeAttribute(safeUrl(block.callout.icon.external.url))}" alt="" width="20" height="20">`
+          : '';
+      const body = renderChildren(block);
+      return [
+        `<aside class="callout${hasColor(block.callout.color) ? ` ${block.callout.color}` : ''}">`,
+        icon ? `<span class="callout-icon">${icon}</span>` : '',
+        '<div class="callout-content">',
+        `<p>${richTextToHtml(block.callout.rich_text)}</p>`,
+        body,
+        '</div>',
+        '</aside>',
+      ].filter(Boolean).join('\n');
+    }
+
+    case 'code': {
+      const content = escapeHtml(block.code.rich_text.map((t) => t.plain_text).join(''));
+      const code = `<pre><code class="language-${languageClass(block.code.language)}">${content}</code></pre>`;
+      return block.code.caption.length > 0 ? withCaption(code, block.code.caption) : code;
+    }
+
+    case 'equation':
+      return `<div class="equation">\\[${escapeHtml(block.equation.expression)}\\]</div>`;
+
+    case 'divider':
+      return '<hr>';
+
+    case 'table':
+      return renderTable(block);
+
+    case 'image': {
+      const caption = plainText(block.image.caption);
+      const image = `<img src="${escapeAttribute(safeUrl(fileUrl(block.image)))}" alt="${escapeAttribute(caption)}">`;
+      return withCaption(image, block.image.caption);
+    }
+
+    case 'video':
+      return renderMedia('video', fileUrl(block.video), block.video.caption);
+
+    case 'audio':
+      return renderMedia('audio', fileUrl(block.audio), block.audio.caption);
+
+    case 'pdf':
+      return renderMedia('pdf', fileUrl(block.pdf), block.pdf.caption);
+
+    case 'file':
+      return renderMedia('file', fileUrl(block.file), block.file.caption, block.file.name);
+
+    case 'bookmark':
+      return renderMedia('bookmark', block.bookmark.url, block.bookmark.caption);
+
+    case 'embed':
+      return renderMedia('embed', block.embed.url, block.embed.caption);
+
+    case 'link_preview':
+      return renderMedia('link-preview', block.link_preview.url, []);
+
+    case 'child_page':
+      return renderPageLink('child-page', notionUrl(block.id), block.child_page.title);
+
+    case 'child_database':
+      return renderPageLink('child-database', notionUrl(block.id), block.child_database.title);
+
+    case 'link_to_page': {
+      const target = block.link_to_page;
+      if (target.type === 'page_id') return renderPageLink('link-to-page', notionUrl(target.page_id), '');
+      if (target.type === 'database_id') return renderPageLink('link-to-page', notionUrl(target.database_id), '');
+      return null;
+    }
+
+    case 'column_list':
+      return `<div class="column-list">\n${renderChildren(block)}\n</div>`;
+
+    case 'column':
+      return `<div class="column">\n${renderChildren(block)}\n</div>`;
+
+    case 'synced_block':
+    case 'template':
+      return renderChildren(block) || null;
+
+    default:
+      return null;
+  }
+}
+
+// h1 is reserved for the page title, so Notion headings shift down one level
+function renderHeading(
+  tag: string,
+  heading: { rich_text: RichTextItemResponse[]; is_toggleable: boolean; color: string },
+  block: BlockWithChildren
+): string {
+  const html = `<${tag}${colorClass(heading.color)}>${richTextToHtml(heading.rich_text)}</${tag}>`;
+  if (heading.is_toggleable) {
+    return renderDetails(`<summary>${html}</summary>`, block);
+  }
+  return withIndentedChildren(html, block);
+}
+
+function renderDetails(summary: string, block: BlockWithChildren): string {
+  const body = renderChildren(block);
+  return `<details>\n${summary}${body ? `\n${body}` : ''}\n</details>`;
+}
+
+function renderListItem(block: BlockWithChildren): string {
+  let content: string;
+  let color = 'default';
+
+  if (block.type === 'to_do') {
+    const checked = block.to_do.checked ? ' checked' : '';
+    content = `<input type="checkbox" disabled${checked}> ${richTextToHtml(block.to_do.rich_text)}`;
+    color = block.to_do.color;
+  } else if (block.type === 'numbered_list_item') {
+    content = richTextToHtml(block.numbered_list_item.rich_text);
+    color = block.numbered_list_item.color;
+  } else if (block.type === 'bulleted_list_item') {
+    content = richTextToHtml(block.bulleted_list_item.rich_text);
+    color = block.bulleted_list_item.color;
+  } else {
+    content = '';
+  }
+
+  const body = renderChildren(block);
+  return `<li${colorClass(color)}>${content}${body ? `\n${body}\n` : ''}</li>`;
+}
+
+function renderTable(block: Extract<BlockWithChildren, { type: 'table' }>): string | null {
+  const rows = (block.children ?? []).filter(
+    (child): child is Extract<BlockWithChildren, { type: 'table_row' }> => child.type === 'table_row'
+  );
+  if (rows.length === 0) return null;
+
+  const width = block.table.table_width;
+  const formatRow = (cells: RichTextItemResponse[][], header: boolean): string => {
+    const values: string[] = [];
+    for (let i = 0; i < width; i++) {
+      const cell = cells[i] ? richTextToHtml(cells[i]) : '';
+      if (header) {
+        values.push(`<th>${cell}</th>`);
+      } else if (i === 0 && block.table.has_row_header) {
+        values.push(`<th scope="row">${cell}</th>`);
+      } else {
+        values.push(`<td>${cell}</td>`);
+      }
+    }
+    return `<tr>${values.join('')}</tr>`;
+  };
+
+  const lines = ['<table>'];
+  const body = block.table.has_column_header ? rows.slice(1) : rows;
+  if (block.table.has_column_header) {
+    lines.push('<thead>', formatRow(rows[0].table_row.cells, true), '</thead>');
+  }
+  if (body.length > 0) {
+    lines.push('<tbody>', ...body.map((row) => formatRow(row.table_row.cells, false)), '</tbody>');
+  }
+  lines.push('</table>');
+
+  return lines.join('\n');
+}
+
+function renderMedia(kind: string, url: string, caption: RichTextItemResponse[], name?: string): string {
+  const href = escapeAttribute(safeUrl(url));
+  let media: string;
+
+  if (kind === 'video' && isDirectMediaUrl(url)) {
+    media = `<video controls src="${href}"></video>`;
+  } else if (kind === 'audio') {
+    media = `<audio controls src="${href}"></audio>`;
+  } else {
+    media = `<a href="${href}">${escapeHtml(name || url)}</a>`;
+  }
+
+  return withCaption(media, caption, kind);
+}
+
+function renderPageLink(kind: string, url: string, title: string): string {
+  return `<p class="${kind}"><a href="${escapeAttribute(safeUrl(url))}">${escapeHtml(title || url)}</a></p>`;
+}
+
+function withCaption(content: string, caption: RichTextItemResponse[], kind?: string): string {
+  const className = kind ? ` class="${kind}"` : '';
+  const figcaption = caption.length > 0 ? `\n<figcaption>${richTextToHtml(caption)}</figcaption>` : '';
+  return `<figure${className}>\n${content}${figcaption}\n</figure>`;
+}
+
+function withIndentedChildren(html: string, block: BlockWithChildren): string {
+  const body = renderChildren(block);
+  return body ? `${html}\n<div class="indented">\n${body}\n</div>` : html;
+}
+
+function renderChildren(block: BlockWithChildren): string {
+  return block.children ? renderBlocks(block.children) : '';
+}
+
+function renderRichTextItem(item: RichTextItemResponse): string {
+  if (item.type === 'equation') {
+    return `<span class="equation">\\(${escapeHtml(item.equation.expression)}\\)</span>`;
+  }
+
+  const { annotations } = item;
+  let html = escapeHtml(item.plain_text).replace(/\n/g, '<br>');
+  if (!html) return '';
+
+  if (annotations.code) html = `<code>${html}</code>`;
+  if (annotations.bold) html = `<strong>${html}</strong>`;
+  if (annotations.italic) html = `<em>${html}</em>`;
+  if (annotations.strikethrough) html = `<s>${html}</s>`;
+  if (annotations.underline) html = `<u>${html}</u>`;
+  if (hasColor(annotations.color)) html = `<span class="${annotations.color}">${html}</span>`;
+  if (item.href) html = `<a href="${escapeAttribute(safeUrl(item.href))}">${html}</a>`;
+
+  return html;
+}
+
+function colorClass(color: string): string {
+  return hasColor(color) ? ` class="${color}"` : '';
+}
+
+function hasColor(color: string | undefined): boolean {
+  return !!color && color !== 'default';
+}
+
+function languageClass(language: string): string {
+  return LANGUAGE_CLASSES[language] ?? language.replace(/\s+/g, '-');
+}
+
+function isDirectMediaUrl(url: string): boolean {
+  return /\.(mp4|webm|ogg|mov)(?:[?#]|$)/i.test(url);
+}
+
+function plainText(items: RichTextItemResponse[]): string {
+  return items.map((t) => t.plain_text).join('');
+}
+
+function fileUrl(file: { type: 'external'; external: { url: string } } | { type: 'file'; file: { url: string } }): string {
+  return file.type === 'external' ? file.external.url : file.file.url;
+}
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
+
+// Only web links make it into href/src; anything else (javascript:, data:) is dropped
+function safeUrl(url: string): string {
+  return /^(https?:|mailto:|tel:|[/#.])/i.test(url.trim()) ? url : '#';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
@@ -0,0 +1,152 @@
+import type {
+  BlockObjectRequest,
+  CreatePageParameters,
+} from '@notionhq/client/build/src/api-endpoints';
+import { extractTitleHeading, parseFrontMatter, type FrontMatterDocument } from './frontmatter.js';
+import { markdownToBlocks } from './markdown.js';
+import {
+  type DatabaseSchema,
+  findSchemaProperty,
+  getTitlePropertyName,
+  normalizeId,
+  textToRichText,
+  toList,
+  toPropertyValue,
+} from './properties.js';
+
+// notion_* keys are written by `page export` and carry no property data
+const RESERVED_KEYS = new Set(['title', 'icon', 'cover', 'notion_id', 'notion_url', 'last_edited_time']);
+const COMPUTED_TYPES = new Set([
+  'formula',
+  'rollup',
+  'unique_id',
+  'created_time',
+  'created_by',
+  'last_edited_time',
+  'last_edited_by',
+]);
+
+export interface MarkdownPage {
+  title: string;
+  params: CreatePageParameters;
+  children: BlockObjectRequest[];
+  warnings: string[];
+}
+
+export interface MarkdownPageOptions {
+  parentId: string;
+  // Database schema when the parent is a database, undefined for a page parent
+  schema?: DatabaseSchema;
+  fallbackTitle?: string;
+  // People given by email or name (lowercased), mapped to user IDs;
+  // `page export` writes people as emails
+  users?: Map<string, string>;
+}
+
+export function buildPageFromMarkdown(source: string, options: MarkdownPageOptions): MarkdownPage {
+  return buildPageFromDocument(parseFrontMatter(source), options);
+}
+
+// Same as buildPageFromMarkdown, for front matter that is already parsed
+export function buildPageFromDocument(
+  { data, body }: FrontMatterDocument,
+  options: MarkdownPageOptions
+): MarkdownPage {
+  const heading = extractTitleHeading(body);
+  const frontMatterTitle = typeof data.title === 'string' || typeof data.title === 'number'
+    ? String(data.title)
+    : undefined;
+
+  const title = frontMatterTitle ?? heading.title ?? options.fallbackTitle ?? 'Untitled';
+  // Only drop the heading from the body when it became the title
+  const content = !frontMatterTitle && heading.title ? heading.body : body;
+  const warnings: string[] = [];
+
+  const params: CreatePageParameters = options.schema
+    ? {
+        parent: { type: 'database_id', database_id: options.parentId },
+        properties: {},
+      }
+    : {
+        parent: { type: 'page_id', page_id: options.parentId },
+        properties: {},
+      };
+
+  if (options.schema) {
+    const titleProperty = getTitlePropertyName(options.schema) ?? 'Name';
+    params.properties[titleProperty] = { title: textToRichText(title) };
+
+    for (const [key, value] of Object.entries(data)) {
+      if (RESERVED_KEYS.has(key.toLowerCase())) continue;
+
+      const match = findSchemaProperty(options.schema, key);
+      if (!match) {
+        warnings.push(`Ignoring front matter "${key}": no such database property.`);
+        continue;
+      }
+      if (match.property.type === 'title') continue;
+      if (COMPUTED_TYPES.has(match.property.type)) {
+        warnings.push(`Ignoring front matter "${key}": ${match.property.type} properties are read-only.`);
+        continue;
+      }
+
+      const resolved = match.property.type === 'people'
+        ? resolvePeople(match.name, value, options.users, warnings)
+        : value;
+      params.properties[match.name] = toPropertyValue(match.name, match.property, resolved);
+    }
+  } else {
+    params.properties.title = { title: textToRichText(title) };
+
+    const extra = Object.keys(data).filter((key) => !RESERVED_KEYS.has(key.toLowerCase()));
+    if (extra.length > 0) {
+      warnings.push(`Ignoring front matter ${extra.map((key) => `"${key}"`).join(', ')}: parent is not a database.`);
+    }
+  }
+
+  if (typeof data.icon === 'string' && data.icon.trim()) {
+    params.icon = toPageIcon(data.icon.trim());
+  }
+
+  if (typeof data.cover === 'string' && data.cover.trim()) {
+    params.cover = { type: 'external', external: { url: data.cover.trim() } };
+  }
+
+  return {
+    title,
+    params,
+    children: markdownToBlocks(content),
+    warnings,
+  };
+}
+
+// Emails and names in people front matter, which need a user lookup
+export function findPeopleReferences(data: Record<string, unknown>, schema: DatabaseSchema): string[] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const match = findSchemaProperty(schema, key);
+    return match?.property.type === 'people' ? toList(value).filter((item) => !isId(item)) : [];
+  });
+}
+
+export function toPageIcon(value: string): NonNullable<CreatePageParameters['icon']> {
+  if (value.startsWith('http')) {
+    return { type: 'external', external: { url: value } };
+  }
+  return { type: 'emoji', emoji: value as '🚀' };
+}
+
+function resolvePeople(name: string, value: unknown, users: Map<string, string> = new Map(), warnings: string[]): string[] {
+  return toList(value).flatMap((item) => {
+    if (isId(item)) return [item];
+    const id = users.get(item.toLowerCase());
+    if (!id) {
+      warnings.push(`Ignoring "${item}" in "${name}": no user matches.`);
+      return [];
+    }
+    return [id];
+  });
+}
+
+function isId(value: string): boolean {
+  return /^[0-9a-f]{32}$/i.test(normalizeId(value));
+}
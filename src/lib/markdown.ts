@@ -1,17 +1,227 @@
-import { marked, type Token, type Tokens } from 'marked';
-import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
-
-type RichTextItemRequest = {
-  type: 'text';
-  text: { content: string; link?: { url: string } | null };
-  annotations?: {
-    bold?: boolean;
-    italic?: boolean;
-    strikethrough?: boolean;
-    underline?: boolean;
-    code?: boolean;
-    color?: 'default';
-  };
+import { Marked, type Token, type Tokens, type TokenizerExtension } from 'marked';
+import type { BlockObjectRequest, RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints';
+import type { BlockWithChildren } from '../types/index.js';
+
+type NotionColor = RichTextItemResponse['annotations']['color'];
+
+type RichTextAnnotations = {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  color?: NotionColor;
+};
+
+type RichTextItemRequest =
+  | {
+      type: 'text';
+      text: { content: string; link?: { url: string } | null };
+      annotations?: RichTextAnnotations;
+    }
+  | {
+      type: 'equation';
+      equation: { expression: string };
+      annotations?: RichTextAnnotations;
+    }
+  | {
+      type: 'mention';
+      mention:
+        | { page: { id: string } }
+        | { database: { id: string } }
+        | { user: { id: string } }
+        | { date: { start: string } };
+      annotations?: RichTextAnnotations;
+    };
+
+// IDs for the [[Page Title]] and @user references in a document, keyed the
+// way findMentionReferences returns them. Unresolved references stay text.
+export interface MentionLookup {
+  pages?: Map<string, string>;
+  users?: Map<string, string>;
+}
+
+const NOTION_COLORS = new Set<string>([
+  'default', 'gray', 'brown', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'red',
+  'default_background', 'gray_background', 'brown_background', 'orange_background',
+  'yellow_background', 'green_background', 'blue_background', 'purple_background',
+  'pink_background', 'red_background',
+]);
+
+function normalizeColor(name: string): NotionColor | undefined {
+  const normalized = name.toLowerCase().replace(/-/g, '_').replace(/^bg_(\w+)$/, '$1_background');
+  return NOTION_COLORS.has(normalized) ? (normalized as NotionColor) : undefined;
+}
+
+// $$ ... $$ on its own lines → equation block
+const blockEquationExtension: TokenizerExtension = {
+  name: 'blockEquation',
+  level: 'block',
+  start(src) {
+    return src.match(/^\$\$/m)?.index;
+  },
+  tokenizer(src) {
+    const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n|$)/.exec(src);
+    if (!match) return undefined;
+    return { type: 'blockEquation', raw: match[0], text: match[1].trim() };
+  },
+};
+
+// $...$ → inline equation. "$5 and $10" is left alone: the closing dollar may
+// not follow whitespace or precede a digit.
+const inlineEquationExtension: TokenizerExtension = {
+  name: 'inlineEquation',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^\$(?!\s)([^$\n]+?)(?<!\s)\$(?!\d)/.exec(src);
+    if (!match) return undefined;
+    return { type: 'inlineEquation', raw: match[0], text: match[1] };
+  },
+};
+
+// ++text++ or <u>text</u> → underline
+const underlineExtension: TokenizerExtension = {
+  name: 'underline',
+  level: 'inline',
+  start(src) {
+    return src.match(/\+\+|<u>/i)?.index;
+  },
+  tokenizer(src) {
+    const match = /^\+\+(?=\S)([\s\S]*?\S)\+\+|^<u>([\s\S]+?)<\/u>/i.exec(src);
+    if (!match) return undefined;
+    const text = match[1] ?? match[2];
+    return { type: 'underline', raw: match[0], text, tokens: this.lexer.inlineTokens(text) };
+  },
+};
+
+// {red}text{/red} or <span color="red">text</span> → annotation color
+const colorExtension: TokenizerExtension = {
+  name: 'color',
+  level: 'inline',
+  start(src) {
+    return src.match(/\{[a-z_-]+\}|<span\s/i)?.index;
+  },
+  tokenizer(src) {
+    const match = /^\{([a-z_-]+)\}([\s\S]+?)\{\/\1\}/i.exec(src)
+      ?? /^<span\s+color=["']([a-z_-]+)["']\s*>([\s\S]+?)<\/span>/i.exec(src);
+    if (!match) return undefined;
+    const color = normalizeColor(match[1]);
+    if (!color) return undefined;
+    return { type: 'color', raw: match[0], color, text: match[2], tokens: this.lexer.inlineTokens(match[2]) };
+  },
+};
+
+// [[Page Title]] → page mention (resolved through a MentionLookup)
+const wikilinkExtension: TokenizerExtension = {
+  name: 'wikilink',
+  level: 'inline',
+  start(src) {
+    return src.match(/\[\[/)?.index;
+  },
+  tokenizer(src) {
+    const match = /^\[\[([^[\]\n]+)\]\]/.exec(src);
+    if (!match || !match[1].trim()) return undefined;
+    return { type: 'wikilink', raw: match[0], text: match[1].trim() };
+  },
+};
+
+// @2026-10-19 → date mention; @name, @first.last, @[Full Name] and
+// @someone@example.com → user mention. The @ must not follow a word
+// character, so plain email addresses are left alone.
+const mentionExtension: TokenizerExtension = {
+  name: 'mention',
+  level: 'inline',
+  start(src) {
+    const match = /(^|[^\w@.])@[\w[]/.exec(src);
+    return match ? match.index + match[1].length : undefined;
+  },
+  tokenizer(src) {
+    const date = /^@(\d{4}-\d{2}-\d{2})(?![\w-])/.exec(src);
+    if (date && !Number.isNaN(Date.parse(date[1]))) {
+      return { type: 'mention', raw: date[0], kind: 'date', text: date[1] };
+    }
+
+    const user = /^@(?:\[([^\]\n]+)\]|([\w.+-]+@[\w-]+(?:\.[\w-]+)+)|(\w(?:[\w.-]*\w)?))/.exec(src);
+    if (!user) return undefined;
+    return { type: 'mention', raw: user[0], kind: 'user', text: (user[1] ?? user[2] ?? user[3]).trim() };
+  },
+};
+
+// <details><summary>…</summary>…</details> → toggle (or toggleable heading
+// when the summary is itself a heading). Nested <details> are balanced.
+const detailsExtension: TokenizerExtension = {
+  name: 'details',
+  level: 'block',
+  start(src) {
+    return src.match(/^<details[\s>]/im)?.index;
+  },
+  tokenizer(src) {
+    const open = /^<details(?:\s[^>]*)?>[ \t]*\n?/i.exec(src);
+    if (!open) return undefined;
+
+    const tagPattern = /<\/?details(?:\s[^>]*)?>/gi;
+    tagPattern.lastIndex = open[0].length;
+    let depth = 1;
+    let close: RegExpExecArray | null = null;
+    while (depth > 0 && (close = tagPattern.exec(src))) {
+      depth += close[0].startsWith('</') ? -1 : 1;
+    }
+    if (depth !== 0 || !close) return undefined;
+
+    const inner = src.slice(open[0].length, close.index);
+    const trailing = /^[ \t]*(?:\n|$)/.exec(src.slice(close.index + close[0].length));
+    const raw = src.slice(0, close.index + close[0].length + (trailing ? trailing[0].length : 0));
+
+    const summaryMatch = /^\s*<summary>([\s\S]*?)<\/summary>/i.exec(inner);
+    let summary = summaryMatch ? summaryMatch[1].trim() : '';
+    const body = summaryMatch ? inner.slice(summaryMatch[0].length) : inner;
+
+    let headingDepth: number | undefined;
+    const markdownHeading = /^(#{1,6})\s+([\s\S]*)$/.exec(summary);
+    const htmlHeading = /^<h([1-6])>([\s\S]*?)<\/h\1>$/i.exec(summary);
+    if (markdownHeading) {
+      headingDepth = markdownHeading[1].length;
+      summary = markdownHeading[2];
+    } else if (htmlHeading) {
+      headingDepth = Number(htmlHeading[1]);
+      summary = htmlHeading[2];
+    }
+
+    return {
+      type: 'details',
+      raw,
+      text: summary,
+      headingDepth,
+      summaryTokens: this.lexer.inlineTokens(summary),
+      tokens: this.lexer.blockTokens(body.trim()),
+    };
+  },
+  childTokens: ['summaryTokens', 'tokens'],
+} as TokenizerExtension & { childTokens: string[] };
+
+const parser = new Marked({
+  extensions: [
+    blockEquationExtension,
+    detailsExtension,
+    inlineEquationExtension,
+    underlineExtension,
+    colorExtension,
+    wikilinkExtension,
+    mentionExtension,
+  ],
+});
+
+// GitHub admonitions (> [!NOTE]) and the callout style each maps to
+const ADMONITIONS: Record<string, { emoji: string; color: NotionColor }> = {
+  NOTE: { emoji: 'ℹ️', color: 'blue_background' },
+  TIP: { emoji: '💡', color: 'green_background' },
+  IMPORTANT: { emoji: '❗', color: 'purple_background' },
+  WARNING: { emoji: '⚠️', color: 'yellow_background' },
+  CAUTION: { emoji: '🛑', color: 'red_background' },
 };
 
 export function inlineTokensToRichText(tokens: Token[]): RichTextItemRequest[] {
@@ -59,6 +269,25 @@ export function inlineTokensToRichText(tokens: Token[]): RichTextItemRequest[] {
         break;
       }
 
+      case 'underline':
+      case 'color': {
+        const t = token as Tokens.Generic;
+        const children = t.tokens ? inlineTokensToRichText(t.tokens) : [richText(t.text)];
+        for (const child of children) {
+          child.annotations = token.type === 'underline'
+            ? { ...child.annotations, underline: true }
+            : { ...child.annotations, color: t.color as NotionColor };
+        }
+        result.push(...children);
+        break;
+      }
+
+      case 'inlineEquation': {
+        const t = token as Tokens.Generic;
+        result.push({ type: 'equation', equation: { expression: t.text } });
+        break;
+      }
+
       case 'codespan': {
         const t = token as Tokens.Codespan;
         result.push({
@@ -69,8 +298,37 @@ export function inlineTokensToRichText(tokens: Token[]): RichTextItemRequest[] {
         break;
       }
 
+      case 'wikilink': {
+        const t = token as Tokens.Generic;
+        result.push(t.pageId
+          ? { type: 'mention', mention: { page: { id: t.pageId as string } } }
+          : richText(t.raw));
+        break;
+      }
+
+      case 'mention': {
+        const t = token as Tokens.Generic;
+        if (t.kind === 'date') {
+          result.push({ type: 'mention', mention: { date: { start: t.text } } });
+        } else {
+          result.push(t.userId
+            ? { type: 'mention', mention: { user: { id: t.userId as string } } }
+            : richText(t.raw));
+        }
+        break;
+      }
+
       case 'link': {
         const t = token as Tokens.Link;
+        const target = notionLinkTarget(t.href);
+        if (target) {
+          result.push({
+            type: 'mention',
+            mention: target.database ? { database: { id: target.id } } : { page: { id: target.id } },
+          });
+          break;
+        }
+
         const linkText = t.tokens
           ? t.tokens.map(tok => ('text' in tok ? (tok as Tokens.Text).text : (tok as any).raw || '')).join('')
           : t.text;
@@ -81,6 +339,15 @@ export function inlineTokensToRichText(tokens: Token[]): RichTextItemRequest[] {
         break;
       }
 
+      case 'image': {
+        const t = token as Tokens.Image;
+        result.push({
+          type: 'text',
+          text: { content: t.text || t.href, link: isHttpUrl(t.href) ? { url: t.href } : null },
+        });
+        break;
+      }
+
       case 'br': {
         result.push(richText('\n'));
         break;
@@ -103,8 +370,47 @@ export function inlineTokensToRichText(tokens: Token[]): RichTextItemRequest[] {
   return result;
 }
 
-export function markdownToBlocks(text: string): BlockObjectRequest[] {
-  const tokens = marked.lexer(text);
+// Notion rejects rich text items longer than 2000 characters and blocks with
+// more than 100 rich text items.
+export const MAX_RICH_TEXT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+export function markdownToBlocks(text: string, mentions: MentionLookup = {}): BlockObjectRequest[] {
+  const tokens = parser.lexer(text);
+  parser.walkTokens(tokens, (token) => {
+    if (token.type === 'wikilink') {
+      token.pageId = mentions.pages?.get(token.text.toLowerCase());
+    } else if (token.type === 'mention' && token.kind === 'user') {
+      token.userId = mentions.users?.get(token.text.toLowerCase());
+    }
+  });
+  return enforcePayloadLimits(tokensToBlocks(tokens));
+}
+
+// Page titles and user names/emails referenced by [[wikilinks]] and @mentions,
+// lowercased, for building the MentionLookup passed to markdownToBlocks.
+export function findMentionReferences(text: string): { pages: string[]; users: string[] } {
+  const pages = new Set<string>();
+  const users = new Set<string>();
+  parser.walkTokens(parser.lexer(text), (token) => {
+    if (token.type === 'wikilink') {
+      pages.add(token.text.toLowerCase());
+    } else if (token.type === 'mention' && token.kind === 'user') {
+      users.add(token.text.toLowerCase());
+    }
+  });
+  return { pages: [...pages], users: [...users] };
+}
+
+// Links to notion.so pages become mentions. Only URLs whose path ends in an
+// ID qualify; a ?v= view parameter marks a database.
+function notionLinkTarget(href: string): { id: string; database: boolean } | undefined {
+  const match = /^https?:\/\/(?:[\w-]+\.)?notion\.(?:so|site)\/(?:[^?#]*[/-])?([0-9a-f]{32})([?#].*)?$/i.exec(href);
+  if (!match) return undefined;
+  return { id: match[1].toLowerCase(), database: /[?&]v=/.test(match[2] ?? '') };
+}
+
+function tokensToBlocks(tokens: Token[]): BlockObjectRequest[] {
   const blocks: BlockObjectRequest[] = [];
 
   for (const token of tokens) {
@@ -124,6 +430,12 @@ export function markdownToBlocks(text: string): BlockObjectRequest[] {
 
       case 'paragraph': {
         const t = token as Tokens.Paragraph;
+        const media = t.tokens ? paragraphToMediaBlocks(t.tokens) : null;
+        if (media) {
+          blocks.push(...media);
+          break;
+        }
+
         const rt = t.tokens ? inlineTokensToRichText(t.tokens) : [richText(t.text)];
         blocks.push({
           object: 'block',
@@ -136,33 +448,37 @@ export function markdownToBlocks(text: string): BlockObjectRequest[] {
       case 'list': {
         const t = token as Tokens.List;
         for (const item of t.items) {
-          const rt = item.tokens
-            ? inlineTokensToRichText(flattenListItemTokens(item.tokens))
-            : [richText(item.text)];
+          const { rt, children } = splitListItemTokens(item);
+          const nested = children.length > 0 ? { children } : {};
 
           if (item.task) {
             blocks.push({
               object: 'block',
               type: 'to_do',
-              to_do: { rich_text: rt, checked: item.checked ?? false },
+              to_do: { rich_text: rt, checked: item.checked ?? false, ...nested },
             } as BlockObjectRequest);
           } else if (t.ordered) {
             blocks.push({
               object: 'block',
               type: 'numbered_list_item',
-              numbered_list_item: { rich_text: rt },
+              numbered_list_item: { rich_text: rt, ...nested },
             } as BlockObjectRequest);
           } else {
             blocks.push({
               object: 'block',
               type: 'bulleted_list_item',
-              bulleted_list_item: { rich_text: rt },
+              bulleted_list_item: { rich_text: rt, ...nested },
             } as BlockObjectRequest);
           }
         }
         break;
       }
 
+      case 'table': {
+        blocks.push(tableToBlock(token as Tokens.Table));
+        break;
+      }
+
       case 'code': {
         const t = token as Tokens.Code;
         const lang = mapCodeLanguage(t.lang || '');
@@ -179,6 +495,12 @@ export function markdownToBlocks(text: string): BlockObjectRequest[] {
 
       case 'blockquote': {
         const t = token as Tokens.Blockquote;
+        const callout = admonitionToBlock(t.text);
+        if (callout) {
+          blocks.push(callout);
+          break;
+        }
+
         const rt = t.tokens ? inlineTokensToRichText(flattenBlockquoteTokens(t.tokens)) : [richText(t.text)];
         blocks.push({
           object: 'block',
@@ -188,6 +510,39 @@ export function markdownToBlocks(text: string): BlockObjectRequest[] {
         break;
       }
 
+      case 'details': {
+        const t = token as Tokens.Generic;
+        const rt = inlineTokensToRichText(t.summaryTokens as Token[]);
+        const children = tokensToBlocks(t.tokens ?? []);
+        const nested = children.length > 0 ? { children } : {};
+
+        if (t.headingDepth) {
+          const key = `heading_${Math.min(t.headingDepth, 3)}` as 'heading_1' | 'heading_2' | 'heading_3';
+          blocks.push({
+            object: 'block',
+            type: key,
+            [key]: { rich_text: rt, is_toggleable: true, ...nested },
+          } as BlockObjectRequest);
+        } else {
+          blocks.push({
+            object: 'block',
+            type: 'toggle',
+            toggle: { rich_text: rt, ...nested },
+          } as BlockObjectRequest);
+        }
+        break;
+      }
+
+      case 'blockEquation': {
+        const t = token as Tokens.Generic;
+        blocks.push({
+          object: 'block',
+          type: 'equation',
+          equation: { expression: t.text },
+        } as BlockObjectRequest);
+        break;
+      }
+
       case 'hr': {
         blocks.push({
           object: 'block',
@@ -218,22 +573,228 @@ export function markdownToBlocks(text: string): BlockObjectRequest[] {
   return blocks;
 }
 
+// A paragraph made up only of images, or of a single bare URL, becomes media
+// blocks instead of text. Returns null when the paragraph is ordinary text.
+function paragraphToMediaBlocks(tokens: Token[]): BlockObjectRequest[] | null {
+  const significant = tokens.filter(
+    (tok) => tok.type !== 'br' && !(tok.type === 'text' && !(tok as Tokens.Text).text.trim())
+  );
+  if (significant.length === 0) return null;
+
+  if (significant.every((tok) => tok.type === 'image' && isHttpUrl((tok as Tokens.Image).href))) {
+    return significant.map((tok) => {
+      const image = tok as Tokens.Image;
+      return {
+        object: 'block',
+        type: 'image',
+        image: {
+          type: 'external',
+          external: { url: image.href },
+          caption: image.text ? [richText(image.text)] : [],
+        },
+      } as BlockObjectRequest;
+    });
+  }
+
+  if (significant.length === 1 && significant[0].type === 'link') {
+    const link = significant[0] as Tokens.Link;
+    const isBareUrl = link.text === link.href || link.raw === `<${link.href}>`;
+    if (isBareUrl && isHttpUrl(link.href) && !notionLinkTarget(link.href)) {
+      return [urlToBlock(link.href)];
+    }
+  }
+
+  return null;
+}
+
+const VIDEO_URL_PATTERNS = [
+  /^https?:\/\/(www\.|m\.)?youtube\.com\/(watch|embed|shorts)/i,
+  /^https?:\/\/youtu\.be\//i,
+  /^https?:\/\/(www\.)?vimeo\.com\/\d+/i,
+];
+
+const EMBED_URL_PATTERNS = [
+  /^https?:\/\/(www\.)?loom\.com\/(share|embed)\//i,
+  /^https?:\/\/(www\.)?figma\.com\/(file|design|proto|board)\//i,
+  /^https?:\/\/gist\.github\.com\//i,
+];
+
+function urlToBlock(url: string): BlockObjectRequest {
+  if (VIDEO_URL_PATTERNS.some((pattern) => pattern.test(url))) {
+    return {
+      object: 'block',
+      type: 'video',
+      video: { type: 'external', external: { url } },
+    } as BlockObjectRequest;
+  }
+
+  if (EMBED_URL_PATTERNS.some((pattern) => pattern.test(url))) {
+    return {
+      object: 'block',
+      type: 'embed',
+      embed: { url },
+    } as BlockObjectRequest;
+  }
+
+  return {
+    object: 'block',
+    type: 'bookmark',
+    bookmark: { url },
+  } as BlockObjectRequest;
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function admonitionToBlock(text: string): BlockObjectRequest | null {
+  const match = /^\[!(\w+)\][ \t]*(?:\n|$)/.exec(text);
+  const style = match ? ADMONITIONS[match[1].toUpperCase()] : undefined;
+  if (!match || !style) return null;
+
+  const tokens = parser.lexer(text.slice(match[0].length)).filter((tok) => tok.type !== 'space');
+  const [first, ...rest] = tokens;
+  const hasLead = first?.type === 'paragraph';
+  const rt = hasLead ? inlineTokensToRichText((first as Tokens.Paragraph).tokens ?? []) : [];
+  const children = tokensToBlocks(hasLead ? rest : tokens);
+
+  return {
+    object: 'block',
+    type: 'callout',
+    callout: {
+      rich_text: rt,
+      icon: { type: 'emoji', emoji: style.emoji },
+      color: style.color,
+      ...(children.length > 0 ? { children } : {}),
+    },
+  } as BlockObjectRequest;
+}
+
+function tableToBlock(table: Tokens.Table): BlockObjectRequest {
+  const cellRichText = (cell: Tokens.TableCell): RichTextItemRequest[] =>
+    cell.tokens ? inlineTokensToRichText(cell.tokens) : [richText(cell.text)];
+  const toRow = (cells: Tokens.TableCell[]): BlockObjectRequest => ({
+    object: 'block',
+    type: 'table_row',
+    table_row: { cells: cells.map(cellRichText) },
+  } as BlockObjectRequest);
+
+  // GFM always has a header line; an all-empty one means "no header"
+  const hasColumnHeader = table.header.some((cell) => cell.text.trim() !== '');
+  const rows = hasColumnHeader ? [table.header, ...table.rows] : table.rows;
+
+  return {
+    object: 'block',
+    type: 'table',
+    table: {
+      table_width: table.header.length,
+      has_column_header: hasColumnHeader,
+      has_row_header: false,
+      children: rows.map(toRow),
+    },
+  } as BlockObjectRequest;
+}
+
+function enforcePayloadLimits(blocks: BlockObjectRequest[]): BlockObjectRequest[] {
+  return blocks.flatMap((block) => {
+    const type = block.type as string;
+    const data = (block as Record<string, unknown>)[type] as Record<string, unknown> | undefined;
+    if (!data) return [block];
+
+    const children = Array.isArray(data.children)
+      ? enforcePayloadLimits(data.children as BlockObjectRequest[])
+      : undefined;
+    const limited: Record<string, unknown> = { ...data, ...(children ? { children } : {}) };
+
+    if (Array.isArray(data.caption)) {
+      limited.caption = splitLongRichText(data.caption as RichTextItemRequest[]).slice(0, MAX_RICH_TEXT_ITEMS);
+    }
+
+    if (Array.isArray(data.cells)) {
+      limited.cells = (data.cells as RichTextItemRequest[][]).map(
+        (cell) => splitLongRichText(cell).slice(0, MAX_RICH_TEXT_ITEMS)
+      );
+    }
+
+    if (!Array.isArray(data.rich_text)) {
+      return [{ ...block, [type]: limited } as BlockObjectRequest];
+    }
+
+    // Overflowing rich text continues in further blocks of the same type;
+    // nested children stay with the last piece.
+    const items = splitLongRichText(data.rich_text as RichTextItemRequest[]);
+    const pieces: BlockObjectRequest[] = [];
+    for (let i = 0; i < Math.max(items.length, 1); i += MAX_RICH_TEXT_ITEMS) {
+      const isLast = i + MAX_RICH_TEXT_ITEMS >= items.length;
+      const { children: _omit, ...rest } = limited;
+      pieces.push({
+        ...block,
+        [type]: {
+          ...(isLast ? limited : rest),
+          rich_text: items.slice(i, i + MAX_RICH_TEXT_ITEMS),
+        },
+      } as BlockObjectRequest);
+    }
+    return pieces;
+  });
+}
+
+function splitLongRichText(items: RichTextItemRequest[]): RichTextItemRequest[] {
+  return items.flatMap((item) => {
+    if (item.type !== 'text' || item.text.content.length <= MAX_RICH_TEXT_LENGTH) {
+      return [item];
+    }
+    return chunkText(item.text.content, MAX_RICH_TEXT_LENGTH).map((content) => ({
+      ...item,
+      text: { ...item.text, content },
+    }));
+  });
+}
+
+// Splits text into chunks of at most `size` characters, preferring line
+// breaks and never cutting a surrogate pair in half.
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > size) {
+    let cut = remaining.lastIndexOf('\n', size - 1) + 1;
+    if (cut < size / 2) {
+      cut = size;
+      const code = remaining.charCodeAt(cut - 1);
+      if (code >= 0xd800 && code <= 0xdbff) cut -= 1;
+    }
+    chunks.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut);
+  }
+
+  if (remaining) chunks.push(remaining);
+  return chunks;
+}
+
 function richText(content: string): RichTextItemRequest {
   return { type: 'text', text: { content } };
 }
 
-function flattenListItemTokens(tokens: Token[]): Token[] {
-  const result: Token[] = [];
+// The first text/paragraph of a list item becomes its rich text; everything
+// after it (sub-lists, code, further paragraphs) becomes nested children.
+function splitListItemTokens(item: Tokens.ListItem): {
+  rt: RichTextItemRequest[];
+  children: BlockObjectRequest[];
+} {
+  const tokens = (item.tokens ?? []).filter((tok) => tok.type !== 'checkbox');
+  if (tokens.length === 0) {
+    return { rt: [richText(item.text)], children: [] };
+  }
 
-  for (const tok of tokens) {
-    if (tok.type === 'text' && (tok as Tokens.Text).tokens) {
-      result.push(...((tok as Tokens.Text).tokens as Token[]));
-    } else if (tok.type === 'text') {
-      result.push(tok);
-    }
+  const [first, ...rest] = tokens;
+  if (first.type !== 'text' && first.type !== 'paragraph') {
+    return { rt: [], children: tokensToBlocks(tokens) };
   }
 
-  return result;
+  const inline = (first as Tokens.Text | Tokens.Paragraph).tokens;
+  const rt = inline ? inlineTokensToRichText(inline) : [richText((first as Tokens.Text).text)];
+  return { rt, children: tokensToBlocks(rest) };
 }
 
 function flattenBlockquoteTokens(tokens: Token[]): Token[] {
@@ -289,3 +850,335 @@ function mapCodeLanguage(lang: string): string {
   if (LANGUAGE_ALIASES[lower]) return LANGUAGE_ALIASES[lower];
   return 'plain text';
 }
+
+// Blocks → Markdown
+
+const LIST_BLOCK_TYPES = new Set(['bulleted_list_item', 'numbered_list_item', 'to_do']);
+
+export function blocksToMarkdown(blocks: BlockWithChildren[]): string {
+  const markdown = renderBlocks(blocks);
+  return markdown ? `${markdown}\n` : '';
+}
+
+export function richTextToMarkdown(items: RichTextItemResponse[]): string {
+  return mergeRichText(items).map(renderRichTextItem).join('');
+}
+
+function renderBlocks(blocks: BlockWithChildren[]): string {
+  let result = '';
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    listNumber = block.type === 'numbered_list_item'
+      ? (previousType === 'numbered_list_item' ? listNumber + 1 : 1)
+      : 0;
+
+    const rendered = renderBlock(block, listNumber);
+    if (rendered === null) continue;
+
+    if (result) {
+      const tight = previousType !== undefined
+        && LIST_BLOCK_TYPES.has(previousType)
+        && LIST_BLOCK_TYPES.has(block.type);
+      result += tight ? '\n' : '\n\n';
+    }
+
+    result += rendered;
+    previousType = block.type;
+  }
+
+  return result;
+}
+
+function renderBlock(block: BlockWithChildren, listNumber: number): string | null {
+  switch (block.type) {
+    case 'paragraph':
+      return appendChildren(escapeLineStart(richTextToMarkdown(block.paragraph.rich_text)), block);
+
+    case 'heading_1':
+      return renderHeading('#', block.heading_1, block);
+
+    case 'heading_2':
+      return renderHeading('##', block.heading_2, block);
+
+    case 'heading_3':
+      return renderHeading('###', block.heading_3, block);
+
+    case 'bulleted_list_item':
+      return renderListItem('- ', richTextToMarkdown(block.bulleted_list_item.rich_text), block);
+
+    case 'numbered_list_item':
+      return renderListItem(`${listNumber}. `, richTextToMarkdown(block.numbered_list_item.rich_text), block);
+
+    case 'to_do':
+      return renderListItem(
+        block.to_do.checked ? '- [x] ' : '- [ ] ',
+        richTextToMarkdown(block.to_do.rich_text),
+        block
+      );
+
+    case 'toggle':
+      return renderDetails(richTextToMarkdown(block.toggle.rich_text), block);
+
+    case 'quote':
+      return quoteLines(appendChildren(richTextToMarkdown(block.quote.rich_text), block));
+
+    case 'callout': {
+      const emoji = block.callout.icon?.type === 'emoji' ? block.callout.icon.emoji : undefined;
+      const text = richTextToMarkdown(block.callout.rich_text);
+      const admonition = Object.entries(ADMONITIONS).find(
+        ([, style]) => style.emoji === emoji && style.color === block.callout.color
+      )?.[0];
+      if (admonition) {
+        return quoteLines(appendChildren(`[!${admonition}]\n${text}`, block));
+      }
+      return quoteLines(appendChildren(emoji ? `${emoji} ${text}` : text, block));
+    }
+
+    case 'code': {
+      const content = block.code.rich_text.map((t) => t.plain_text).join('');
+      const language = block.code.language === 'plain text' ? '' : block.code.language;
+      const fence = codeFence(content);
+      return `${fence}${language}\n${content}\n${fence}`;
+    }
+
+    case 'equation':
+      return `$$\n${block.equation.expression}\n$$`;
+
+    case 'divider':
+      return '---';
+
+    case 'table':
+      return renderTable(block);
+
+    case 'image': {
+      const caption = richTextToPlainText(block.image.caption);
+      return `![${escapeMarkdown(caption)}](${fileUrl(block.image)})`;
+    }
+
+    case 'video':
+      return renderLink(fileUrl(block.video), block.video.caption);
+
+    case 'pdf':
+      return renderLink(fileUrl(block.pdf), block.pdf.caption);
+
+    case 'audio':
+      return renderLink(fileUrl(block.audio), block.audio.caption);
+
+    case 'file': {
+      const caption = block.file.caption.length > 0 ? block.file.caption : undefined;
+      const url = fileUrl(block.file);
+      return caption ? renderLink(url, caption) : `[${escapeMarkdown(block.file.name || url)}](${url})`;
+    }
+
+    case 'bookmark':
+      return renderLink(block.bookmark.url, block.bookmark.caption);
+
+    case 'embed':
+      return renderLink(block.embed.url, block.embed.caption);
+
+    case 'link_preview':
+      return block.link_preview.url;
+
+    case 'child_page':
+      return `[${escapeMarkdown(block.child_page.title || 'Untitled')}](${notionUrl(block.id)})`;
+
+    case 'child_database':
+      return `[${escapeMarkdown(block.child_database.title || 'Untitled')}](${notionUrl(block.id)})`;
+
+    case 'link_to_page': {
+      const target = block.link_to_page;
+      if (target.type === 'page_id') return notionUrl(target.page_id);
+      if (target.type === 'database_id') return notionUrl(target.database_id);
+      return null;
+    }
+
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+    case 'template':
+      return block.children ? renderBlocks(block.children) || null : null;
+
+    default:
+      return null;
+  }
+}
+
+function renderHeading(
+  marker: string,
+  heading: { rich_text: RichTextItemResponse[]; is_toggleable: boolean },
+  block: BlockWithChildren
+): string {
+  const text = `${marker} ${richTextToMarkdown(heading.rich_text)}`;
+  return heading.is_toggleable ? renderDetails(text, block) : appendChildren(text, block);
+}
+
+function renderDetails(summary: string, block: BlockWithChildren): string {
+  const body = block.children ? renderBlocks(block.children) : '';
+  return body
+    ? `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`
+    : `<details>\n<summary>${summary}</summary>\n</details>`;
+}
+
+function appendChildren(head: string, block: BlockWithChildren): string {
+  const body = block.children ? renderBlocks(block.children) : '';
+  return body ? `${head}\n\n${body}` : head;
+}
+
+function renderListItem(marker: string, text: string, block: BlockWithChildren): string {
+  const indent = ' '.repeat(marker.length);
+  let result = `${marker}${indentLines(text, indent)}`;
+
+  const body = block.children ? renderBlocks(block.children) : '';
+  if (body) {
+    result += `\n${indent}${indentLines(body, indent)}`;
+  }
+
+  return result;
+}
+
+function renderTable(block: Extract<BlockWithChildren, { type: 'table' }>): string | null {
+  const rows = (block.children ?? []).filter(
+    (child): child is Extract<BlockWithChildren, { type: 'table_row' }> => child.type === 'table_row'
+  );
+  if (rows.length === 0) return null;
+
+  const width = block.table.table_width;
+  const formatRow = (cells: RichTextItemResponse[][]): string => {
+    const values: string[] = [];
+    for (let i = 0; i < width; i++) {
+      const cell = cells[i] ? richTextToMarkdown(cells[i]) : '';
+      values.push(cell.replace(/\|/g, '\\|').replace(/\n/g, '<br>'));
+    }
+    return `| ${values.join(' | ')} |`;
+  };
+
+  const header = block.table.has_column_header ? rows[0].table_row.cells : [];
+  const body = block.table.has_column_header ? rows.slice(1) : rows;
+  const lines = [
+    formatRow(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map((row) => formatRow(row.table_row.cells)),
+  ];
+
+  return lines.join('\n');
+}
+
+function renderLink(url: string, caption: RichTextItemResponse[]): string {
+  const text = richTextToPlainText(caption);
+  return text ? `[${escapeMarkdown(text)}](${url})` : url;
+}
+
+function renderRichTextItem(item: RichTextItemResponse): string {
+  if (item.type === 'equation') {
+    return `$${item.equation.expression}$`;
+  }
+
+  // User and date mentions use the same syntax markdownToBlocks reads back
+  if (item.type === 'mention' && item.mention.type === 'user') {
+    return `@[${item.plain_text.replace(/^@/, '').replace(/]/g, '')}]`;
+  }
+  if (
+    item.type === 'mention'
+    && item.mention.type === 'date'
+    && !item.mention.date.end
+    && /^\d{4}-\d{2}-\d{2}$/.test(item.mention.date.start)
+  ) {
+    return `@${item.mention.date.start}`;
+  }
+
+  const { annotations } = item;
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(item.plain_text);
+  const [, leading, core, trailing] = match ?? ['', '', item.plain_text, ''];
+  if (!core) return item.plain_text;
+
+  let text = annotations.code ? codeSpan(core) : escapeMarkdown(core);
+  if (annotations.bold) text = `**${text}**`;
+  if (annotations.italic) text = `_${text}_`;
+  if (annotations.strikethrough) text = `~~${text}~~`;
+  if (annotations.underline) text = `<u>${text}</u>`;
+  if (annotations.color !== 'default') text = `{${annotations.color}}${text}{/${annotations.color}}`;
+  if (item.href) text = `[${text}](${item.href})`;
+
+  return `${leading}${text}${trailing}`;
+}
+
+function mergeRichText(items: RichTextItemResponse[]): RichTextItemResponse[] {
+  const merged: RichTextItemResponse[] = [];
+
+  for (const item of items) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous
+      && previous.type === 'text'
+      && item.type === 'text'
+      && previous.href === item.href
+      && sameAnnotations(previous.annotations, item.annotations)
+    ) {
+      merged[merged.length - 1] = {
+        ...previous,
+        text: { ...previous.text, content: previous.text.content + item.text.content },
+        plain_text: previous.plain_text + item.plain_text,
+      };
+    } else {
+      merged.push(item);
+    }
+  }
+
+  return merged;
+}
+
+function sameAnnotations(a: RichTextItemResponse['annotations'], b: RichTextItemResponse['annotations']): boolean {
+  return a.bold === b.bold
+    && a.italic === b.italic
+    && a.strikethrough === b.strikethrough
+    && a.underline === b.underline
+    && a.code === b.code
+    && a.color === b.color;
+}
+
+function richTextToPlainText(items: RichTextItemResponse[]): string {
+  return items.map((t) => t.plain_text).join('');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]~$])/g, '\\$1');
+}
+
+function escapeLineStart(text: string): string {
+  return text
+    .replace(/^(\s*)(#|>|[-+]\s)/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)]\s)/gm, '$1\\$2');
+}
+
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  const padding = longestRun > 0 ? ' ' : '';
+  return `${ticks}${padding}${text}${padding}${ticks}`;
+}
+
+function codeFence(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`{3,}/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function indentLines(text: string, indent: string): string {
+  return text.replace(/\n(?=.)/g, `\n${indent}`);
+}
+
+function quoteLines(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function fileUrl(file: { type: 'external'; external: { url: string } } | { type: 'file'; file: { url: string } }): string {
+  return file.type === 'external' ? file.external.url : file.file.url;
+}
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
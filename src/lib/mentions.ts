@@ -0,0 +1,156 @@
+import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
+import { listUsers, search } from './client.js';
+import { findMentionReferences, markdownToBlocks, type MentionLookup } from './markdown.js';
+import { extractPageTitle } from './output.js';
+import type { PageObjectResponse, UserObjectResponse } from '../types/index.js';
+
+export interface MarkdownWithMentions {
+  blocks: BlockObjectRequest[];
+  warnings: string[];
+}
+
+// Converts Markdown after looking up the pages and users its [[wikilinks]]
+// and @mentions refer to. References that cannot be resolved stay plain text
+// and are reported in warnings.
+export async function markdownToBlocksWithMentions(
+  text: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<MarkdownWithMentions> {
+  const { lookup, warnings } = await resolveMentionLookup(text, apiKey, configPath);
+  return { blocks: markdownToBlocks(text, lookup), warnings };
+}
+
+export async function resolveMentionLookup(
+  text: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<{ lookup: MentionLookup; warnings: string[] }> {
+  const references = findMentionReferences(text);
+  const warnings: string[] = [];
+  const lookup: MentionLookup = {};
+
+  if (references.pages.length > 0) {
+    lookup.pages = new Map();
+    for (const title of references.pages) {
+      const id = await resolvePageTitle(title, warnings, apiKey, configPath);
+      if (id) lookup.pages.set(title, id);
+    }
+  }
+
+  if (references.users.length > 0) {
+    // Integrations without the "read user information" capability cannot
+    // list users; an @word is then just text
+    try {
+      const users = await listAllUsers(apiKey, configPath);
+      lookup.users = matchUsers(references.users, users, warnings);
+    } catch (error) {
+      const mentions = references.users.map((reference) => `@${reference}`).join(', ');
+      warnings.push(`Could not list users (${(error as Error).message}); ${mentions} left as text.`);
+    }
+  }
+
+  return { lookup, warnings };
+}
+
+// Matches @references against workspace members: email first, then full
+// name ("jane.doe" or "[Jane Doe]"), then email local part, then first name.
+export function matchUsers(
+  references: string[],
+  users: UserObjectResponse[],
+  warnings: string[] = []
+): Map<string, string> {
+  const people = users.filter((user) => user.type === 'person');
+  const resolved = new Map<string, string>();
+
+  for (const reference of references) {
+    const key = normalizeName(reference);
+    const strategies: Array<(user: UserObjectResponse) => boolean> = [
+      (user) => userEmail(user) === reference.toLowerCase(),
+      (user) => normalizeName(user.name ?? '') === key,
+      (user) => normalizeName(userEmail(user).split('@')[0]) === key,
+      (user) => normalizeName((user.name ?? '').split(/\s+/)[0]) === key,
+    ];
+
+    let matched = false;
+    for (const matches of strategies) {
+      const candidates = people.filter(matches);
+      if (candidates.length === 1) {
+        resolved.set(reference, candidates[0].id);
+        matched = true;
+        break;
+      }
+      if (candidates.length > 1) {
+        const names = candidates.map((user) => user.name ?? user.id).join(', ');
+        warnings.push(`@${reference} matches several users (${names}); left as text.`);
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      warnings.push(`No user matches @${reference}; left as text.`);
+    }
+  }
+
+  return resolved;
+}
+
+async function resolvePageTitle(
+  title: string,
+  warnings: string[],
+  apiKey?: string,
+  configPath?: string
+): Promise<string | undefined> {
+  // [[<page-id>]] needs no lookup
+  const id = /^[0-9a-f]{32}$/i.exec(title.replace(/-/g, ''));
+  if (id) return id[0].toLowerCase();
+
+  let response: Awaited<ReturnType<typeof search>>;
+  try {
+    response = await search(
+      title,
+      { filter: { property: 'object', value: 'page' }, page_size: 25 },
+      apiKey,
+      configPath
+    );
+  } catch (error) {
+    warnings.push(`Could not search for "${title}" (${(error as Error).message}); [[${title}]] left as text.`);
+    return undefined;
+  }
+  const matches = response.results.filter(
+    (result): result is PageObjectResponse =>
+      result.object === 'page' && 'properties' in result && extractPageTitle(result).toLowerCase() === title
+  );
+
+  if (matches.length === 0) {
+    warnings.push(`No page titled "${title}" found; [[${title}]] left as text.`);
+    return undefined;
+  }
+  if (matches.length > 1) {
+    warnings.push(`Several pages are titled "${title}"; use [[<page-id>]] to pick one. Left as text.`);
+    return undefined;
+  }
+  return matches[0].id;
+}
+
+export async function listAllUsers(apiKey?: string, configPath?: string): Promise<UserObjectResponse[]> {
+  const users: UserObjectResponse[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await listUsers(cursor, apiKey, configPath);
+    users.push(...response.results);
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return users;
+}
+
+function userEmail(user: UserObjectResponse): string {
+  return user.type === 'person' ? (user.person.email ?? '').toLowerCase() : '';
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
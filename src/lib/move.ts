@@ -0,0 +1,171 @@
+import type { RichTextItemResponse, UpdateBlockParameters } from '@notionhq/client/build/src/api-endpoints';
+import { fetchBlockTree } from './blocks.js';
+import { archivePage, getPage, updateBlock } from './client.js';
+import { duplicatePage, type DuplicatedPage, type DuplicateParent } from './duplicate.js';
+import { richTextToRequest, type RichTextRequest } from './properties.js';
+import type { BlockWithChildren, PageObjectResponse } from '../types/index.js';
+
+// Blocks whose rich text can be rewritten in place
+const RICH_TEXT_TYPES = new Set([
+  'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item',
+  'numbered_list_item', 'to_do', 'toggle', 'quote', 'callout',
+]);
+
+export interface MoveOptions {
+  // Further pages whose links to the moved pages should be updated
+  relink?: string[];
+  // Archive the original even when some content could not be copied
+  force?: boolean;
+}
+
+export interface MoveResult {
+  page: PageObjectResponse;
+  mapping: DuplicatedPage[];
+  relinked: number;
+  archived: boolean;
+  warnings: string[];
+}
+
+// The API cannot change a page's parent, so the page and its sub-pages are
+// copied under the new parent, mentions and links to them are pointed at the
+// copies, and the original is archived. The original is kept when the copy
+// is incomplete (uploaded files, databases…) unless options.force is set.
+export async function movePageByRecreation(
+  pageId: string,
+  parent: DuplicateParent,
+  options: MoveOptions = {},
+  apiKey?: string,
+  configPath?: string
+): Promise<MoveResult> {
+  const source = await getPage(pageId, apiKey, configPath) as PageObjectResponse;
+  const { page, copies, warnings } = await duplicatePage(
+    pageId,
+    parent,
+    { includeChildPages: true },
+    apiKey,
+    configPath
+  );
+  const incomplete = warnings.length > 0;
+
+  // Links between the moved pages, from the old parent and from any page
+  // the caller knows about
+  const mapping = new Map(copies.map((copy) => [compactId(copy.old_id), copy.new_id]));
+  const scanned = [
+    ...copies.map((copy) => copy.new_id),
+    ...(source.parent.type === 'page_id' ? [source.parent.page_id] : []),
+    ...(options.relink ?? []),
+  ];
+
+  let relinked = 0;
+  for (const id of new Set(scanned)) {
+    relinked += await relinkPageContent(id, mapping, warnings, apiKey, configPath);
+  }
+
+  const archived = !incomplete || Boolean(options.force);
+  if (archived) {
+    await archivePage(pageId, apiKey, configPath);
+  } else {
+    warnings.push(
+      'The original was kept because some content could not be copied. ' +
+      `Check the copy, then archive the original with \`onotion page delete ${pageId}\`.`
+    );
+  }
+
+  return { page, mapping: copies, relinked, archived, warnings };
+}
+
+// Updates every block of a page that mentions or links to a remapped page.
+// Returns the number of blocks changed.
+export async function relinkPageContent(
+  pageId: string,
+  mapping: Map<string, string>,
+  warnings: string[],
+  apiKey?: string,
+  configPath?: string
+): Promise<number> {
+  const blocks = await fetchBlockTree(pageId, Infinity, apiKey, configPath);
+  let updated = 0;
+
+  for (const block of flattenBlocks(blocks)) {
+    const params = relinkBlock(block, mapping);
+    if (params) {
+      await updateBlock(block.id, params, apiKey, configPath);
+      updated++;
+    } else if (block.type === 'link_to_page' && block.link_to_page.type === 'page_id'
+      && mapping.has(compactId(block.link_to_page.page_id))) {
+      warnings.push(`Link block ${block.id} on page ${pageId} still points to the original page; replace it in Notion.`);
+    }
+  }
+
+  return updated;
+}
+
+// Returns the update for a block whose rich text refers to a remapped page,
+// or null when nothing refers to one.
+export function relinkBlock(
+  block: BlockWithChildren,
+  mapping: Map<string, string>
+): Omit<UpdateBlockParameters, 'block_id'> | null {
+  if (RICH_TEXT_TYPES.has(block.type)) {
+    const data = (block as Record<string, unknown>)[block.type] as { rich_text: RichTextItemResponse[] };
+    const richText = relinkRichText(data.rich_text, mapping);
+    return richText ? { [block.type]: { rich_text: richText } } as Omit<UpdateBlockParameters, 'block_id'> : null;
+  }
+
+  if (block.type === 'table_row') {
+    const cells = block.table_row.cells.map((cell) => relinkRichText(cell, mapping));
+    if (cells.every((cell) => cell === null)) return null;
+    return {
+      table_row: { cells: cells.map((cell, i) => cell ?? richTextToRequest(block.table_row.cells[i])) },
+    } as Omit<UpdateBlockParameters, 'block_id'>;
+  }
+
+  return null;
+}
+
+// Rewrites page mentions and notion.so links through mapping (compact old
+// ID → new ID). Returns null when no item refers to a remapped page.
+export function relinkRichText(
+  items: RichTextItemResponse[],
+  mapping: Map<string, string>
+): RichTextRequest[] | null {
+  let changed = false;
+
+  const requests = richTextToRequest(items).map((item): RichTextRequest => {
+    if (item.type === 'mention' && 'page' in item.mention) {
+      const id = mapping.get(compactId(item.mention.page.id));
+      if (id) {
+        changed = true;
+        return { ...item, mention: { page: { id } } };
+      }
+    }
+
+    if (item.type === 'text' && item.text.link) {
+      const url = relinkUrl(item.text.link.url, mapping);
+      if (url) {
+        changed = true;
+        return { ...item, text: { ...item.text, link: { url } } };
+      }
+    }
+
+    return item;
+  });
+
+  return changed ? requests : null;
+}
+
+// Links to pages are either full notion.so URLs or "/<id>" paths. Block
+// anchors are dropped since the copied blocks have new IDs.
+function relinkUrl(url: string, mapping: Map<string, string>): string | undefined {
+  const match = /^(?:https?:\/\/(?:[\w-]+\.)?notion\.(?:so|site))?\/(?:[^?#]*[/-])?([0-9a-f]{32})(?:[?#].*)?$/i.exec(url);
+  const id = match ? mapping.get(match[1].toLowerCase()) : undefined;
+  return id ? `https://www.notion.so/${compactId(id)}` : undefined;
+}
+
+function flattenBlocks(blocks: BlockWithChildren[]): BlockWithChildren[] {
+  return blocks.flatMap((block) => [block, ...flattenBlocks(block.children ?? [])]);
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
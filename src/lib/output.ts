@@ -250,7 +250,8 @@ function formatPagesTable(pages: PageObjectResponse[]): string {
   return table.toString();
 }
 
-function formatPageDetail(page: PageObjectResponse): string {
+// expanded replaces the summary of a property with one line per entry
+export function formatPageDetail(page: PageObjectResponse, expanded: Record<string, string[]> = {}): string {
   const lines: string[] = [
     chalk.bold('Page Details'),
     '',
@@ -264,7 +265,12 @@ function formatPageDetail(page: PageObjectResponse): string {
   ];
 
   for (const [name, value] of Object.entries(page.properties)) {
-    lines.push(`  ${chalk.yellow(name)}: ${extractPropertyValue(value)}`);
+    const entries = expanded[name];
+    if (entries && entries.length > 1) {
+      lines.push(`  ${chalk.yellow(name)}:`, ...entries.map((entry) => `    - ${entry}`));
+    } else {
+      lines.push(`  ${chalk.yellow(name)}: ${entries ? entries.join('') : extractPropertyValue(value)}`);
+    }
   }
 
   return lines.join('\n');
@@ -422,6 +428,21 @@ export function extractDatabaseTitle(db: DatabaseObjectResponse): string {
   return 'Untitled';
 }
 
+// ID of the page, database or block containing a page or block (null for the workspace)
+export function extractParentId(item: PageObjectResponse | BlockObjectResponse): string | null {
+  const parent = item.parent;
+  switch (parent.type) {
+    case 'page_id':
+      return parent.page_id;
+    case 'database_id':
+      return parent.database_id;
+    case 'block_id':
+      return parent.block_id;
+    default:
+      return null;
+  }
+}
+
 export function extractPropertyValue(prop: PropertyValue): string {
   switch (prop.type) {
     case 'title':
@@ -0,0 +1,312 @@
+import type {
+  CreatePageParameters,
+  DatabaseObjectResponse,
+  RichTextItemResponse,
+} from '@notionhq/client/build/src/api-endpoints';
+import type { PropertyValue } from '../types/index.js';
+
+export type DatabaseSchema = DatabaseObjectResponse['properties'];
+export type SchemaProperty = DatabaseSchema[string];
+export type PropertyRequest = CreatePageParameters['properties'][string];
+export type RichTextRequest = Extract<PropertyRequest, { rich_text: unknown }>['rich_text'][number];
+
+export function findSchemaProperty(
+  schema: DatabaseSchema,
+  name: string
+): { name: string; property: SchemaProperty } | undefined {
+  if (schema[name]) {
+    return { name, property: schema[name] };
+  }
+
+  const lower = name.trim().toLowerCase();
+  const match = Object.keys(schema).find((key) => key.toLowerCase() === lower);
+  return match ? { name: match, property: schema[match] } : undefined;
+}
+
+export function getTitlePropertyName(schema: DatabaseSchema): string | undefined {
+  return Object.keys(schema).find((key) => schema[key].type === 'title');
+}
+
+export function toPropertyValue(name: string, property: SchemaProperty, value: unknown): PropertyRequest {
+  switch (property.type) {
+    case 'title':
+      return { title: textToRichText(stringify(value)) };
+
+    case 'rich_text':
+      return { rich_text: textToRichText(stringify(value)) };
+
+    case 'number': {
+      if (value === null || value === '') return { number: null };
+      const number = typeof value === 'number' ? value : Number(stringify(value).replace(/,/g, ''));
+      if (!Number.isFinite(number)) {
+        throw new Error(`Property "${name}" expects a number, got "${stringify(value)}".`);
+      }
+      return { number };
+    }
+
+    case 'checkbox':
+      return { checkbox: parseBoolean(name, value) };
+
+    case 'select':
+      return { select: isEmpty(value) ? null : { name: stringify(value) } };
+
+    case 'status': {
+      if (isEmpty(value)) return { status: null } as unknown as PropertyRequest;
+      const option = findOption(property.status.options, stringify(value));
+      if (!option) {
+        throw new Error(
+          `Unknown status "${stringify(value)}" for "${name}". Options: ${property.status.options.map((o) => o.name).join(', ')}`
+        );
+      }
+      return { status: { name: option.name } };
+    }
+
+    case 'multi_select':
+      return { multi_select: toList(value).map((item) => ({ name: item })) };
+
+    case 'date':
+      return { date: isEmpty(value) ? null : parseDateValue(name, value) };
+
+    case 'url':
+      return { url: isEmpty(value) ? null : stringify(value) };
+
+    case 'email':
+      return { email: isEmpty(value) ? null : stringify(value) };
+
+    case 'phone_number':
+      return { phone_number: isEmpty(value) ? null : stringify(value) };
+
+    case 'people':
+      return { people: toList(value).map((id) => ({ id: normalizeId(id) })) };
+
+    case 'relation':
+      return { relation: toList(value).map((id) => ({ id: normalizeId(id) })) };
+
+    case 'files':
+      return {
+        files: toList(value).map((url) => ({
+          name: url.split('/').pop()?.split('?')[0] || url,
+          external: { url },
+        })),
+      };
+
+    default:
+      throw new Error(`Property "${name}" has type ${property.type}, which cannot be set.`);
+  }
+}
+
+// Plain value for a page property, shaped so that toPropertyValue accepts it
+// back (dates as "start" or {start, end}, people as emails when known).
+export function fromPropertyValue(prop: PropertyValue): unknown {
+  switch (prop.type) {
+    case 'title':
+      return prop.title.map((t) => t.plain_text).join('');
+    case 'rich_text':
+      return prop.rich_text.map((t) => t.plain_text).join('');
+    case 'number':
+      return prop.number;
+    case 'checkbox':
+      return prop.checkbox;
+    case 'select':
+      return prop.select?.name ?? null;
+    case 'status':
+      return prop.status?.name ?? null;
+    case 'multi_select':
+      return prop.multi_select.map((option) => option.name);
+    case 'date':
+      if (!prop.date) return null;
+      return prop.date.end ? { start: prop.date.start, end: prop.date.end } : prop.date.start;
+    case 'url':
+      return prop.url;
+    case 'email':
+      return prop.email;
+    case 'phone_number':
+      return prop.phone_number;
+    case 'people':
+      return prop.people.map((person) =>
+        'person' in person && person.person?.email ? person.person.email : person.id
+      );
+    case 'relation':
+      return prop.relation.map((relation) => relation.id);
+    case 'files':
+      return prop.files.map((file) => ('external' in file ? file.external.url : file.file.url));
+    case 'formula':
+      switch (prop.formula.type) {
+        case 'string':
+          return prop.formula.string;
+        case 'number':
+          return prop.formula.number;
+        case 'boolean':
+          return prop.formula.boolean;
+        case 'date':
+          return prop.formula.date?.start ?? null;
+        default:
+          return null;
+      }
+    case 'rollup':
+      switch (prop.rollup.type) {
+        case 'number':
+          return prop.rollup.number;
+        case 'date':
+          return prop.rollup.date?.start ?? null;
+        default:
+          return null;
+      }
+    case 'unique_id':
+      if (prop.unique_id.number === null) return null;
+      return prop.unique_id.prefix ? `${prop.unique_id.prefix}-${prop.unique_id.number}` : prop.unique_id.number;
+    case 'created_time':
+      return prop.created_time;
+    case 'last_edited_time':
+      return prop.last_edited_time;
+    case 'created_by':
+      return prop.created_by.id;
+    case 'last_edited_by':
+      return prop.last_edited_by.id;
+    default:
+      return null;
+  }
+}
+
+// Request shape of an existing property value, for copying it to another
+// page. Computed properties (formula, rollup, timestamps…) return undefined.
+export function propertyToRequest(prop: PropertyValue): PropertyRequest | undefined {
+  switch (prop.type) {
+    case 'title':
+      return { title: richTextToRequest(prop.title) };
+    case 'rich_text':
+      return { rich_text: richTextToRequest(prop.rich_text) };
+    case 'number':
+      return { number: prop.number };
+    case 'checkbox':
+      return { checkbox: prop.checkbox };
+    case 'select':
+      return { select: prop.select ? { name: prop.select.name } : null };
+    case 'status':
+      return { status: prop.status ? { name: prop.status.name } : null } as PropertyRequest;
+    case 'multi_select':
+      return { multi_select: prop.multi_select.map((option) => ({ name: option.name })) };
+    case 'date':
+      return { date: prop.date as Extract<PropertyRequest, { date: unknown }>['date'] };
+    case 'url':
+      return { url: prop.url };
+    case 'email':
+      return { email: prop.email };
+    case 'phone_number':
+      return { phone_number: prop.phone_number };
+    case 'people':
+      return { people: prop.people.map((person) => ({ id: person.id })) };
+    case 'relation':
+      return { relation: prop.relation.map((relation) => ({ id: relation.id })) };
+    case 'files':
+      // Uploaded files cannot be re-attached through the API
+      return {
+        files: prop.files.flatMap((file) =>
+          'external' in file ? [{ name: file.name, external: { url: file.external.url } }] : []
+        ),
+      };
+    default:
+      return undefined;
+  }
+}
+
+export function richTextToRequest(items: RichTextItemResponse[]): RichTextRequest[] {
+  return items.map((item): RichTextRequest => {
+    const { annotations } = item;
+
+    if (item.type === 'equation') {
+      return { type: 'equation', equation: { expression: item.equation.expression }, annotations };
+    }
+
+    if (item.type === 'mention') {
+      const mention = item.mention;
+      switch (mention.type) {
+        case 'user':
+          return { type: 'mention', mention: { user: { id: mention.user.id } }, annotations };
+        case 'page':
+          return { type: 'mention', mention: { page: { id: mention.page.id } }, annotations };
+        case 'database':
+          return { type: 'mention', mention: { database: { id: mention.database.id } }, annotations };
+        case 'date':
+          return { type: 'mention', mention: { date: mention.date }, annotations } as RichTextRequest;
+        case 'template_mention':
+          return { type: 'mention', mention: { template_mention: mention.template_mention }, annotations };
+        default:
+          // Link previews and similar mentions cannot be created; keep them as links
+          return {
+            type: 'text',
+            text: { content: item.plain_text, link: item.href ? { url: item.href } : null },
+            annotations,
+          };
+      }
+    }
+
+    return { type: 'text', text: { content: item.text.content, link: item.text.link }, annotations };
+  });
+}
+
+export function textToRichText(text: string): Array<{ type: 'text'; text: { content: string } }> {
+  if (!text) return [];
+  const items: Array<{ type: 'text'; text: { content: string } }> = [];
+  for (let i = 0; i < text.length; i += 2000) {
+    items.push({ type: 'text', text: { content: text.slice(i, i + 2000) } });
+  }
+  return items;
+}
+
+export function toList(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value.map(stringify) : stringify(value).split(',');
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+// Accepts bare IDs, dashed UUIDs and Notion URLs ending in an ID
+export function normalizeId(value: string): string {
+  const match = /([0-9a-f]{32})(?:[?#].*)?$/i.exec(value.replace(/-/g, ''));
+  return match ? match[1].toLowerCase() : value.trim();
+}
+
+function parseDateValue(name: string, value: unknown): { start: string; end?: string | null } {
+  if (value instanceof Date) {
+    return { start: value.toISOString().slice(0, 10) };
+  }
+
+  if (typeof value === 'object' && value !== null && 'start' in value) {
+    const range = value as { start: unknown; end?: unknown };
+    return {
+      start: stringify(range.start),
+      ...(isEmpty(range.end) ? {} : { end: stringify(range.end) }),
+    };
+  }
+
+  const text = stringify(value);
+  const [start, end] = text.split(/\s*(?:\.\.|→)\s*/);
+  if (!start || Number.isNaN(Date.parse(start)) || (end && Number.isNaN(Date.parse(end)))) {
+    throw new Error(`Property "${name}" expects a date (YYYY-MM-DD or start..end), got "${text}".`);
+  }
+  return end ? { start, end } : { start };
+}
+
+function parseBoolean(name: string, value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  const text = stringify(value).trim().toLowerCase();
+  if (['true', 'yes', 'y', '1', 'x', 'checked', 'on'].includes(text)) return true;
+  if (['false', 'no', 'n', '0', '', 'unchecked', 'off'].includes(text)) return false;
+  throw new Error(`Property "${name}" expects true/false, got "${stringify(value)}".`);
+}
+
+export function findOption<T extends { name: string }>(options: T[], name: string): T | undefined {
+  const lower = name.trim().toLowerCase();
+  return options.find((option) => option.name === name)
+    ?? options.find((option) => option.name.toLowerCase() === lower);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
@@ -0,0 +1,756 @@
+import { extname } from 'node:path';
+import type { CreatePageParameters, UpdatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { createPage, getDatabase, getPage, queryDatabase, updatePage } from './client.js';
+import { formatDelimited, joinList, parseDelimited, splitList } from './csv.js';
+import { expandPageProperty, type RelatedPage } from './expand.js';
+import { listAllUsers } from './mentions.js';
+import { extractPageTitle } from './output.js';
+import {
+  findSchemaProperty,
+  fromPropertyValue,
+  normalizeId,
+  toPropertyValue,
+  type DatabaseSchema,
+  type PropertyRequest,
+  type SchemaProperty,
+} from './properties.js';
+import { findPageByTitle, matchPeople, type SetterLookup } from './setters.js';
+import type {
+  DatabaseFilter,
+  DatabaseObjectResponse,
+  PageObjectResponse,
+  PropertyValue,
+} from '../types/index.js';
+
+export type RowFormat = 'csv' | 'tsv' | 'ndjson';
+
+export type CellValue = string | number | boolean | string[] | null;
+
+export interface RowColumn {
+  // Header: the property name, "Due (start)"/"Due (end)" for dates, or the
+  // page ID column (see idColumnHeader)
+  header: string;
+  property?: string;
+  type: string;
+  part?: 'start' | 'end';
+}
+
+export interface RowExportOptions {
+  filter?: DatabaseFilter;
+  // Relations as page IDs (default) or titles
+  relations?: 'ids' | 'titles';
+  onProgress?: (count: number) => void;
+}
+
+// Lookups filled in while exporting: user emails and related page titles
+export interface RowLookup {
+  emails?: Map<string, string>;
+  titles?: Map<string, string | null>;
+}
+
+export interface RowExport {
+  columns: RowColumn[];
+  rows: Array<Record<string, CellValue>>;
+}
+
+// Types whose cells hold several values
+const LIST_TYPES = new Set(['multi_select', 'people', 'relation', 'files']);
+
+const USER_TYPES = new Set(['people', 'created_by', 'last_edited_by']);
+
+// Notion has nothing to export for these
+const SKIPPED_TYPES = new Set(['button']);
+
+export const DATE_START_SUFFIX = ' (start)';
+export const DATE_END_SUFFIX = ' (end)';
+
+// The page ID column is "id", or "_id" when a property already has that name
+export function idColumnHeader(schema: DatabaseSchema): string {
+  return findSchemaProperty(schema, 'id') ? '_id' : 'id';
+}
+
+// One column per property in schema order after the page ID. Dates take two
+// columns so ranges survive a round trip through a spreadsheet.
+export function rowColumns(schema: DatabaseSchema): RowColumn[] {
+  const columns: RowColumn[] = [{ header: idColumnHeader(schema), type: 'id' }];
+
+  for (const [name, property] of Object.entries(schema)) {
+    if (SKIPPED_TYPES.has(property.type)) continue;
+    if (property.type === 'date') {
+      columns.push({ header: `${name}${DATE_START_SUFFIX}`, property: name, type: 'date', part: 'start' });
+      columns.push({ header: `${name}${DATE_END_SUFFIX}`, property: name, type: 'date', part: 'end' });
+      continue;
+    }
+    columns.push({ header: name, property: name, type: property.type });
+  }
+
+  return columns;
+}
+
+// Every row of the database, with relations longer than the 25 entries a
+// page object holds read in full
+export async function exportDatabaseRows(
+  databaseId: string,
+  options: RowExportOptions = {},
+  apiKey?: string,
+  configPath?: string
+): Promise<RowExport> {
+  const database = await getDatabase(databaseId, apiKey, configPath) as DatabaseObjectResponse;
+  const columns = rowColumns(database.properties);
+  const lookup: RowLookup = {};
+
+  if (columns.some((column) => USER_TYPES.has(column.type))) {
+    const users = await listAllUsers(apiKey, configPath);
+    lookup.emails = new Map(users.flatMap((user) =>
+      user.type === 'person' && user.person.email ? [[user.id, user.person.email] as [string, string]] : []
+    ));
+  }
+  if (options.relations === 'titles') {
+    lookup.titles = new Map();
+  }
+
+  const rows: Array<Record<string, CellValue>> = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await queryDatabase(
+      databaseId,
+      { filter: options.filter, start_cursor: cursor, page_size: 100 },
+      apiKey,
+      configPath
+    );
+
+    for (const page of response.results) {
+      if (page.object !== 'page' || !('properties' in page)) continue;
+      const full = await readTruncatedRelations(page, apiKey, configPath);
+      if (lookup.titles) await loadRelationTitles(full, lookup.titles, apiKey, configPath);
+      rows.push(toRow(full, columns, lookup));
+    }
+
+    options.onProgress?.(rows.length);
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return { columns, rows };
+}
+
+export function toRow(page: PageObjectResponse, columns: RowColumn[], lookup: RowLookup = {}): Record<string, CellValue> {
+  const row: Record<string, CellValue> = {};
+  for (const column of columns) {
+    if (!column.property) {
+      row[column.header] = page.id;
+      continue;
+    }
+    const property = page.properties[column.property];
+    row[column.header] = property ? cellValue(property, column, lookup) : null;
+  }
+  return row;
+}
+
+export function formatRows(data: RowExport, format: RowFormat, listDelimiter = ', '): string {
+  if (format === 'ndjson') {
+    return data.rows.map((row) => JSON.stringify(row)).join('\n') + (data.rows.length > 0 ? '\n' : '');
+  }
+
+  const text = (value: CellValue) => {
+    if (value === null) return '';
+    if (Array.isArray(value)) return joinList(value, listDelimiter);
+    return String(value);
+  };
+
+  return formatDelimited(
+    [
+      data.columns.map((column) => column.header),
+      ...data.rows.map((row) => data.columns.map((column) => text(row[column.header]))),
+    ],
+    format === 'tsv' ? '\t' : ','
+  );
+}
+
+function cellValue(property: PropertyValue, column: RowColumn, lookup: RowLookup): CellValue {
+  switch (property.type) {
+    case 'date':
+      return (column.part === 'end' ? property.date?.end : property.date?.start) ?? null;
+
+    case 'people':
+      return property.people.map((person) => userEmail(person, lookup));
+
+    case 'created_by':
+      return userEmail(property.created_by, lookup);
+
+    case 'last_edited_by':
+      return userEmail(property.last_edited_by, lookup);
+
+    case 'relation':
+      return property.relation.map((page) => lookup.titles?.get(page.id) ?? page.id);
+
+    case 'rollup':
+      if (property.rollup.type === 'array') {
+        return property.rollup.array.map((item) => {
+          const value = fromPropertyValue(item as PropertyValue);
+          return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+        });
+      }
+      return fromPropertyValue(property) as CellValue;
+
+    case 'formula':
+    case 'unique_id':
+      return fromPropertyValue(property) as CellValue;
+
+    default: {
+      const value = fromPropertyValue(property);
+      if (LIST_TYPES.has(property.type)) return (value as string[] | null) ?? [];
+      return (value as CellValue) ?? null;
+    }
+  }
+}
+
+function userEmail(user: { id: string; type?: string; person?: { email?: string } }, lookup: RowLookup): string {
+  return user.person?.email ?? lookup.emails?.get(user.id) ?? user.id;
+}
+
+// Page objects hold at most 25 related pages per property
+async function readTruncatedRelations(
+  page: PageObjectResponse,
+  apiKey?: string,
+  configPath?: string
+): Promise<PageObjectResponse> {
+  const properties = { ...page.properties };
+  for (const [name, property] of Object.entries(page.properties)) {
+    // The SDK types leave out has_more, which the API sends for relations
+    if (property.type !== 'relation' || !(property as { has_more?: boolean }).has_more) continue;
+    const expanded = await expandPageProperty(page, name, apiKey, configPath);
+    const pages = expanded.value as RelatedPage[];
+    properties[name] = { ...property, relation: pages.map(({ id }) => ({ id })), has_more: false } as PropertyValue;
+  }
+  return { ...page, properties };
+}
+
+async function loadRelationTitles(
+  page: PageObjectResponse,
+  titles: Map<string, string | null>,
+  apiKey?: string,
+  configPath?: string
+): Promise<void> {
+  for (const property of Object.values(page.properties)) {
+    if (property.type !== 'relation') continue;
+    for (const { id } of property.relation) {
+      if (titles.has(id)) continue;
+      try {
+        titles.set(id, extractPageTitle(await getPage(id, apiKey, configPath) as PageObjectResponse));
+      } catch {
+        // Pages the integration cannot read keep their ID
+        titles.set(id, null);
+      }
+    }
+  }
+}
+
+export type RowFileFormat = 'csv' | 'tsv' | 'jsonl';
+
+export interface RowRecord {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+export interface RowError {
+  line: number;
+  message: string;
+}
+
+export interface RowFile {
+  headers: string[];
+  records: RowRecord[];
+  // Rows that could not be read, such as CSV lines with extra cells
+  errors: RowError[];
+}
+
+// Column header → property name; null skips the column
+export type ColumnMap = Record<string, string | null>;
+
+export interface ImportColumn {
+  header: string;
+  property: string;
+  type: string;
+  part?: 'start' | 'end';
+  // Computed properties are only read, as an upsert key
+  readOnly?: boolean;
+}
+
+export interface RowInput {
+  line: number;
+  properties: Record<string, PropertyRequest>;
+  // Value of the --upsert-key column
+  key?: string;
+}
+
+export interface RowImportOptions {
+  map?: ColumnMap;
+  // Separator for list cells in CSV/TSV (default ",")
+  listDelimiter?: string;
+  // Property whose value identifies existing rows, or the page ID column
+  // ("id", or "_id" when a property is named id)
+  upsertKey?: string;
+  dryRun?: boolean;
+  // Import the valid rows even when others have errors
+  skipInvalid?: boolean;
+  concurrency?: number;
+  // Requests per second
+  rate?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface RowImportResult {
+  line: number;
+  action: 'create' | 'update';
+  status: 'done' | 'failed' | 'planned';
+  page_id?: string;
+  error?: string;
+}
+
+export interface RowImport {
+  results: RowImportResult[];
+  // Rows rejected before anything was written
+  errors: RowError[];
+  warnings: string[];
+}
+
+export const DEFAULT_IMPORT_CONCURRENCY = 3;
+// Notion allows an average of three requests per second
+export const DEFAULT_IMPORT_RATE = 3;
+
+const READ_ONLY_TYPES = new Set([
+  'formula', 'rollup', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by',
+  'unique_id', 'button', 'verification',
+]);
+
+const KEY_TYPES = new Set(['title', 'rich_text', 'number', 'url', 'email', 'phone_number', 'unique_id', 'select', 'status']);
+
+export function rowFileFormat(file: string): RowFileFormat {
+  const extension = extname(file).toLowerCase();
+  if (extension === '.tsv' || extension === '.tab') return 'tsv';
+  if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+  return 'csv';
+}
+
+export function parseRowFile(text: string, format: RowFileFormat): RowFile {
+  if (format === 'jsonl') return parseJsonLines(text);
+
+  const [header, ...rows] = parseDelimited(text, format === 'tsv' ? '\t' : ',');
+  if (!header) return { headers: [], records: [], errors: [] };
+
+  const headers = header.cells.map((cell) => cell.trim());
+  const records: RowRecord[] = [];
+  const errors: RowError[] = [];
+
+  for (const row of rows) {
+    if (row.cells.length > headers.length && row.cells.slice(headers.length).some((cell) => cell !== '')) {
+      errors.push({ line: row.line, message: `Row has ${row.cells.length} cells but the header has ${headers.length}.` });
+      continue;
+    }
+    records.push({ line: row.line, values: Object.fromEntries(headers.map((name, i) => [name, row.cells[i] ?? ''])) });
+  }
+
+  return { headers, records, errors };
+}
+
+// Matches headers to properties by name (case-insensitive), "Due (start)"
+// and "Due (end)" to date ranges, and applies --map. The page ID column
+// written by db export is only used as an upsert key.
+export function mapImportColumns(
+  headers: string[],
+  schema: DatabaseSchema,
+  map: ColumnMap = {}
+): { columns: ImportColumn[]; warnings: string[] } {
+  const columns: ImportColumn[] = [];
+  const unmatched: string[] = [];
+  const readOnly: string[] = [];
+  const idHeader = idColumnHeader(schema);
+
+  for (const header of headers) {
+    let target: string | null = header;
+    if (Object.hasOwn(map, header)) {
+      target = map[header];
+      if (target === null) continue;
+      if (!findSchemaProperty(schema, target) && !dateColumn(schema, target)) {
+        throw new Error(`--map sends "${header}" to unknown property "${target}". Properties: ${Object.keys(schema).join(', ')}`);
+      }
+    } else if (header === idHeader) {
+      continue;
+    }
+
+    const match = findSchemaProperty(schema, target);
+    const column: ImportColumn | undefined = match
+      ? { header, property: match.name, type: match.property.type }
+      : dateColumn(schema, target, header);
+    if (!column) {
+      unmatched.push(header);
+      continue;
+    }
+
+    if (READ_ONLY_TYPES.has(column.type)) {
+      column.readOnly = true;
+      readOnly.push(header);
+    }
+    columns.push(column);
+  }
+
+  const warnings: string[] = [];
+  if (unmatched.length > 0) {
+    warnings.push(`Skipping column(s) that match no property: ${unmatched.join(', ')}. Map them with --map.`);
+  }
+  if (readOnly.length > 0) {
+    warnings.push(`Skipping computed column(s), which Notion fills in: ${readOnly.join(', ')}.`);
+  }
+  return { columns, warnings };
+}
+
+// Looks up people given by email or name and related pages given by title
+export async function resolveRowLookup(
+  records: RowRecord[],
+  columns: ImportColumn[],
+  schema: DatabaseSchema,
+  listDelimiter = ',',
+  apiKey?: string,
+  configPath?: string
+): Promise<SetterLookup> {
+  const lookup: SetterLookup = {};
+  const references = (type: string) => {
+    const found = new Map<string, string>();
+    for (const column of columns.filter((c) => c.type === type && !c.readOnly)) {
+      for (const record of records) {
+        for (const item of cellList(record.values[column.header], listDelimiter)) {
+          if (!isId(item)) found.set(item.toLowerCase(), column.property);
+        }
+      }
+    }
+    return found;
+  };
+
+  const people = references('people');
+  if (people.size > 0) {
+    lookup.users = matchPeople([...people.keys()], await listAllUsers(apiKey, configPath));
+  }
+
+  const relations = references('relation');
+  if (relations.size > 0) {
+    lookup.pages = new Map();
+    for (const [title, name] of relations) {
+      const property = schema[name];
+      if (property.type !== 'relation') continue;
+      const id = await findPageByTitle(property.relation.database_id, title, apiKey, configPath);
+      if (id) lookup.pages.set(title, id);
+    }
+  }
+
+  return lookup;
+}
+
+// Converts each record into property payloads. Empty cells are left out, so
+// an update only changes the columns that have values.
+export function buildRowInputs(
+  records: RowRecord[],
+  columns: ImportColumn[],
+  schema: DatabaseSchema,
+  options: { keyColumn?: ImportColumn | 'id'; listDelimiter?: string; lookup?: SetterLookup } = {}
+): { inputs: RowInput[]; errors: RowError[] } {
+  const { keyColumn, listDelimiter = ',', lookup = {} } = options;
+  const inputs: RowInput[] = [];
+  const errors: RowError[] = [];
+  const keyLines = new Map<string, number>();
+
+  for (const record of records) {
+    try {
+      const properties: Record<string, PropertyRequest> = {};
+      const dates = new Map<string, { start?: unknown; end?: unknown }>();
+
+      for (const column of columns) {
+        const value = record.values[column.header];
+        if (column.readOnly || isBlank(value)) continue;
+
+        if (column.part) {
+          dates.set(column.property, { ...dates.get(column.property), [column.part]: value });
+          continue;
+        }
+        properties[column.property] = cellToProperty(column, schema[column.property], value, listDelimiter, lookup);
+      }
+
+      for (const [name, range] of dates) {
+        if (isBlank(range.start)) {
+          throw new Error(`"${name}${DATE_END_SUFFIX}" is set but "${name}${DATE_START_SUFFIX}" is empty.`);
+        }
+        properties[name] = toPropertyValue(name, schema[name], range);
+      }
+
+      const input: RowInput = { line: record.line, properties };
+      if (keyColumn) {
+        const header = keyColumn === 'id' ? idColumnHeader(schema) : keyColumn.header;
+        const value = record.values[header];
+        if (isBlank(value)) throw new Error(`The upsert key "${header}" is empty.`);
+        input.key = keyColumn === 'id' ? normalizeId(String(value)) : keyText(value, keyColumn.type);
+
+        const previous = keyLines.get(input.key);
+        if (previous !== undefined) throw new Error(`The upsert key "${input.key}" is also used on line ${previous}.`);
+        keyLines.set(input.key, record.line);
+      }
+
+      inputs.push(input);
+    } catch (error) {
+      errors.push({ line: record.line, message: (error as Error).message });
+    }
+  }
+
+  return { inputs, errors };
+}
+
+// Validates every row first, then creates or updates pages with at most
+// concurrency requests in flight and rate requests per second
+export async function importDatabaseRows(
+  databaseId: string,
+  file: RowFile,
+  options: RowImportOptions = {},
+  apiKey?: string,
+  configPath?: string
+): Promise<RowImport> {
+  const database = await getDatabase(databaseId, apiKey, configPath) as DatabaseObjectResponse;
+  const schema = database.properties;
+  const { columns, warnings } = mapImportColumns(file.headers, schema, options.map);
+  const keyColumn = findKeyColumn(options.upsertKey, file.headers, columns, schema);
+
+  const lookup = await resolveRowLookup(file.records, columns, schema, options.listDelimiter, apiKey, configPath);
+  const { inputs, errors } = buildRowInputs(file.records, columns, schema, {
+    keyColumn,
+    listDelimiter: options.listDelimiter,
+    lookup,
+  });
+  errors.push(...file.errors);
+
+  const existing = keyColumn && keyColumn !== 'id'
+    ? await fetchKeyIndex(databaseId, keyColumn, apiKey, configPath)
+    : undefined;
+
+  const planned: Array<{ result: RowImportResult; properties: Record<string, PropertyRequest> }> = [];
+  for (const input of inputs) {
+    let pageId: string | undefined;
+    if (keyColumn === 'id') {
+      pageId = input.key;
+    } else if (existing && input.key !== undefined) {
+      const matches = existing.get(input.key) ?? [];
+      if (matches.length > 1) {
+        errors.push({ line: input.line, message: `${matches.length} pages already have the upsert key "${input.key}".` });
+        continue;
+      }
+      pageId = matches[0];
+    }
+    planned.push({
+      result: { line: input.line, action: pageId ? 'update' : 'create', status: 'planned', page_id: pageId },
+      properties: input.properties,
+    });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  const results = planned.map(({ result }) => result);
+
+  if (options.dryRun || (errors.length > 0 && !options.skipInvalid)) {
+    return { results: options.dryRun ? results : [], errors, warnings };
+  }
+
+  const throttle = rateLimiter(options.rate ?? DEFAULT_IMPORT_RATE);
+  let done = 0;
+
+  await runConcurrently(planned, options.concurrency ?? DEFAULT_IMPORT_CONCURRENCY, async ({ result, properties }) => {
+    await throttle();
+    try {
+      if (result.page_id) {
+        await updatePage(result.page_id, { properties: properties as UpdatePageParameters['properties'] }, apiKey, configPath);
+      } else {
+        const page = await createPage(
+          { parent: { database_id: database.id }, properties: properties as CreatePageParameters['properties'] },
+          apiKey,
+          configPath
+        );
+        result.page_id = page.id;
+      }
+      result.status = 'done';
+    } catch (error) {
+      result.status = 'failed';
+      result.error = (error as Error).message;
+    }
+    options.onProgress?.(++done, planned.length);
+  });
+
+  return { results, errors, warnings };
+}
+
+export function parseConcurrency(value?: string): number {
+  if (value === undefined) return DEFAULT_IMPORT_CONCURRENCY;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error('Concurrency must be a positive integer.');
+  }
+  return parsed;
+}
+
+export function parseRate(value?: string): number {
+  if (value === undefined) return DEFAULT_IMPORT_RATE;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error('Rate must be a positive number of requests per second.');
+  }
+  return parsed;
+}
+
+function parseJsonLines(text: string): RowFile {
+  const headers: string[] = [];
+  const records: RowRecord[] = [];
+  const errors: RowError[] = [];
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((source, index) => {
+    if (!source.trim()) return;
+    const line = index + 1;
+    try {
+      const values = JSON.parse(source) as unknown;
+      if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        throw new Error('Each line must be a JSON object.');
+      }
+      for (const key of Object.keys(values)) {
+        if (!headers.includes(key)) headers.push(key);
+      }
+      records.push({ line, values: values as Record<string, unknown> });
+    } catch (error) {
+      errors.push({ line, message: `Invalid JSON: ${(error as Error).message}` });
+    }
+  });
+
+  return { headers, records, errors };
+}
+
+function dateColumn(schema: DatabaseSchema, target: string, header = target): ImportColumn | undefined {
+  for (const [suffix, part] of [[DATE_START_SUFFIX, 'start'], [DATE_END_SUFFIX, 'end']] as const) {
+    if (!target.toLowerCase().endsWith(suffix)) continue;
+    const match = findSchemaProperty(schema, target.slice(0, -suffix.length));
+    if (match?.property.type === 'date') return { header, property: match.name, type: 'date', part };
+  }
+  return undefined;
+}
+
+function findKeyColumn(
+  upsertKey: string | undefined,
+  headers: string[],
+  columns: ImportColumn[],
+  schema: DatabaseSchema
+): ImportColumn | 'id' | undefined {
+  if (!upsertKey) return undefined;
+
+  const idHeader = idColumnHeader(schema);
+  if (upsertKey === idHeader) {
+    if (!headers.includes(idHeader)) throw new Error(`--upsert-key ${idHeader} needs an "${idHeader}" column with page IDs.`);
+    return 'id';
+  }
+
+  const match = findSchemaProperty(schema, upsertKey);
+  if (!match) {
+    throw new Error(`Unknown --upsert-key "${upsertKey}". Properties: ${Object.keys(schema).join(', ')}`);
+  }
+  if (!KEY_TYPES.has(match.property.type)) {
+    throw new Error(`--upsert-key needs a text, number, select or ID property; "${match.name}" has type ${match.property.type}.`);
+  }
+  const column = columns.find((c) => c.property === match.name && !c.part);
+  if (!column) throw new Error(`No column holds the upsert key "${match.name}".`);
+  return column;
+}
+
+// Existing pages by upsert key value
+async function fetchKeyIndex(
+  databaseId: string,
+  keyColumn: ImportColumn,
+  apiKey?: string,
+  configPath?: string
+): Promise<Map<string, string[]>> {
+  const index = new Map<string, string[]>();
+  let cursor: string | undefined;
+
+  do {
+    const response = await queryDatabase(databaseId, { start_cursor: cursor, page_size: 100 }, apiKey, configPath);
+    for (const result of response.results) {
+      if (result.object !== 'page' || !('properties' in result)) continue;
+      const property = (result as PageObjectResponse).properties[keyColumn.property];
+      const value = property ? fromPropertyValue(property) : null;
+      if (isBlank(value)) continue;
+      const key = keyText(value, keyColumn.type);
+      index.set(key, [...(index.get(key) ?? []), result.id]);
+    }
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return index;
+}
+
+function cellToProperty(
+  column: ImportColumn,
+  property: SchemaProperty,
+  value: unknown,
+  listDelimiter: string,
+  lookup: SetterLookup
+): PropertyRequest {
+  const name = column.property;
+  if (column.type !== 'people' && column.type !== 'relation') {
+    const items = column.type === 'multi_select' || column.type === 'files' ? cellList(value, listDelimiter) : value;
+    return toPropertyValue(name, property, items);
+  }
+
+  const ids = cellList(value, listDelimiter).map((item) => {
+    if (isId(item)) return item;
+    const id = column.type === 'people' ? lookup.users?.get(item.toLowerCase()) : lookup.pages?.get(item.toLowerCase());
+    if (!id) {
+      throw new Error(column.type === 'people'
+        ? `No user matches "${item}" for "${name}". Use an email, full name or user ID.`
+        : `No page titled "${item}" in the database related to "${name}". Use a title, page ID or URL.`);
+    }
+    return id;
+  });
+  return toPropertyValue(name, property, ids);
+}
+
+function cellList(value: unknown, listDelimiter: string): string[] {
+  if (isBlank(value)) return [];
+  const items = Array.isArray(value) ? value.map(String) : splitList(String(value), listDelimiter);
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+// Keys compare as trimmed text; numbers as numbers, so "3.0" matches 3
+function keyText(value: unknown, type: string): string {
+  const text = String(value).trim();
+  if (type === 'number' && text !== '' && Number.isFinite(Number(text))) return String(Number(text));
+  return text;
+}
+
+function rateLimiter(perSecond: number): () => Promise<void> {
+  const interval = 1000 / perSecond;
+  let next = 0;
+  return async () => {
+    const now = Date.now();
+    const at = Math.max(now, next);
+    next = at + interval;
+    if (at > now) await new Promise((resolve) => setTimeout(resolve, at - now));
+  };
+}
+
+async function runConcurrently<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  let index = 0;
+  const worker = async () => {
+    while (index < items.length) {
+      await task(items[index++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function isId(value: string): boolean {
+  return /^[0-9a-f]{32}$/i.test(normalizeId(value));
+}
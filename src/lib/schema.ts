@@ -0,0 +1,262 @@
+import type { UpdateDatabaseParameters } from '@notionhq/client/build/src/api-endpoints';
+import { findOption, findSchemaProperty, normalizeId, type DatabaseSchema, type SchemaProperty } from './properties.js';
+
+export type SchemaUpdateProperties = NonNullable<UpdateDatabaseParameters['properties']>;
+
+export interface SchemaChange {
+  description: string;
+  // Page values can be lost: removed properties or options, type changes
+  destructive: boolean;
+}
+
+export interface SchemaUpdate {
+  properties: SchemaUpdateProperties;
+  changes: SchemaChange[];
+}
+
+export interface PropertyConfigOptions {
+  // Initial select/multi_select options
+  options?: string[];
+  color?: string;
+  // Number format, e.g. dollar or percent
+  format?: string;
+  // Formula expression
+  expression?: string;
+  // Database a relation points to
+  relationDatabase?: string;
+}
+
+export const OPTION_COLORS = ['default', 'gray', 'brown', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'red'];
+
+// Types a property can be created with or changed to. Rollups need a
+// relation and target property, so they are left to the Notion app.
+const SIMPLE_TYPES = [
+  'rich_text', 'number', 'select', 'multi_select', 'date', 'people', 'files', 'checkbox', 'url', 'email',
+  'phone_number', 'formula', 'relation', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by',
+];
+
+type OptionType = 'select' | 'multi_select';
+type Option = { id?: string; name: string; color?: string };
+
+export function addProperty(schema: DatabaseSchema, name: string, type: string, config: PropertyConfigOptions = {}): SchemaUpdate {
+  const existing = findSchemaProperty(schema, name);
+  if (existing) {
+    throw new Error(`Property "${existing.name}" already exists (${existing.property.type}).`);
+  }
+
+  return {
+    properties: { [name]: propertyConfig(type, config) } as SchemaUpdateProperties,
+    changes: [{ description: `add property "${name}" (${type})`, destructive: false }],
+  };
+}
+
+export function renameProperty(schema: DatabaseSchema, name: string, newName: string): SchemaUpdate {
+  const { name: current } = requireProperty(schema, name);
+  const clash = findSchemaProperty(schema, newName);
+  if (clash && clash.name !== current) {
+    throw new Error(`Property "${clash.name}" already exists.`);
+  }
+
+  return {
+    properties: { [current]: { name: newName } } as SchemaUpdateProperties,
+    changes: [{ description: `rename property "${current}" to "${newName}"`, destructive: false }],
+  };
+}
+
+export function removeProperty(schema: DatabaseSchema, name: string): SchemaUpdate {
+  const { name: current, property } = requireProperty(schema, name);
+  if (property.type === 'title') {
+    throw new Error(`"${current}" is the title property, which every database needs.`);
+  }
+
+  return {
+    properties: { [current]: null },
+    changes: [{ description: `remove property "${current}" (${property.type}) and its values`, destructive: true }],
+  };
+}
+
+// Changing the type converts or drops existing values, so it counts as destructive
+export function setPropertyType(
+  schema: DatabaseSchema,
+  name: string,
+  type: string,
+  config: PropertyConfigOptions = {}
+): SchemaUpdate {
+  const { name: current, property } = requireProperty(schema, name);
+  if (property.type === 'title') {
+    throw new Error(`"${current}" is the title property; its type cannot change.`);
+  }
+  if (property.type === type && !hasConfig(config)) {
+    throw new Error(`"${current}" already has type ${type}.`);
+  }
+
+  // Select options carry over to multi_select and back unless new ones are given
+  if ((type === 'select' || type === 'multi_select') && !config.options && isOptionType(property.type)) {
+    config = { ...config, options: optionsOf(property).map((option) => option.name) };
+  }
+
+  return {
+    properties: { [current]: propertyConfig(type, config) } as SchemaUpdateProperties,
+    changes: [{
+      description: `change "${current}" from ${property.type} to ${type}`,
+      destructive: property.type !== type,
+    }],
+  };
+}
+
+export function addOptions(schema: DatabaseSchema, name: string, names: string[], color?: string): SchemaUpdate {
+  const { name: current, property } = requireOptionProperty(schema, name);
+  const options = optionsOf(property);
+  checkColor(color);
+
+  const added = names.filter((option) => !findOption(options, option));
+  if (added.length === 0) {
+    throw new Error(`"${current}" already has ${names.map((option) => `"${option}"`).join(', ')}.`);
+  }
+  for (const option of added) {
+    checkOptionName(option);
+  }
+
+  return optionUpdate(current, property.type, [
+    ...options,
+    ...added.map((option) => ({ name: option, ...(color ? { color } : {}) })),
+  ], [{ description: `add option(s) ${added.map((o) => `"${o}"`).join(', ')} to "${current}"`, destructive: false }]);
+}
+
+export function renameOption(schema: DatabaseSchema, name: string, option: string, newName: string): SchemaUpdate {
+  const { name: current, property } = requireOptionProperty(schema, name);
+  const options = optionsOf(property);
+  const match = requireOption(current, options, option);
+  checkOptionName(newName);
+
+  const clash = findOption(options, newName);
+  if (clash && clash.id !== match.id) {
+    throw new Error(`"${current}" already has an option "${clash.name}".`);
+  }
+
+  return optionUpdate(
+    current,
+    property.type,
+    options.map((o) => (o.id === match.id ? { id: o.id, name: newName } : o)),
+    [{ description: `rename option "${match.name}" of "${current}" to "${newName}"`, destructive: false }]
+  );
+}
+
+export function removeOptions(schema: DatabaseSchema, name: string, names: string[]): SchemaUpdate {
+  const { name: current, property } = requireOptionProperty(schema, name);
+  const options = optionsOf(property);
+  const removed = names.map((option) => requireOption(current, options, option));
+
+  return optionUpdate(
+    current,
+    property.type,
+    options.filter((o) => !removed.some((r) => r.id === o.id)),
+    [{
+      description: `remove option(s) ${removed.map((o) => `"${o.name}"`).join(', ')} from "${current}" and clear them on every page`,
+      destructive: true,
+    }]
+  );
+}
+
+export function propertyConfig(type: string, config: PropertyConfigOptions = {}): Record<string, unknown> {
+  switch (type) {
+    case 'title':
+      throw new Error('A database has exactly one title property; rename it instead.');
+    case 'status':
+      throw new Error('Notion\'s API cannot create status properties or change their options. Use the Notion app.');
+    case 'rollup':
+      throw new Error('Rollups need a relation and a target property; create them in the Notion app.');
+    case 'number':
+      return { number: { format: config.format ?? 'number' } };
+    case 'select':
+    case 'multi_select':
+      checkColor(config.color);
+      return {
+        [type]: {
+          options: (config.options ?? []).map((name) => {
+            checkOptionName(name);
+            return { name, ...(config.color ? { color: config.color } : {}) };
+          }),
+        },
+      };
+    case 'formula':
+      if (!config.expression) throw new Error('A formula property needs --expression.');
+      return { formula: { expression: config.expression } };
+    case 'relation':
+      if (!config.relationDatabase) throw new Error('A relation property needs --relation-database <id>.');
+      return {
+        relation: { database_id: normalizeId(config.relationDatabase), type: 'single_property', single_property: {} },
+      };
+    default:
+      if (!SIMPLE_TYPES.includes(type)) {
+        throw new Error(`Unknown property type "${type}". Use ${SIMPLE_TYPES.join(', ')}.`);
+      }
+      return { [type]: {} };
+  }
+}
+
+export function formatSchemaChanges(changes: SchemaChange[]): string[] {
+  return changes.map((change) => `${change.destructive ? '!' : '+'} ${change.description}`);
+}
+
+function optionUpdate(name: string, type: string, options: Option[], changes: SchemaChange[]): SchemaUpdate {
+  // Existing options go by ID so their colors and page values stay
+  const properties: Record<string, unknown> = {
+    [name]: { [type]: { options: options.map((o) => (o.id ? { id: o.id, name: o.name } : o)) } },
+  };
+  return { properties: properties as SchemaUpdateProperties, changes };
+}
+
+function requireProperty(schema: DatabaseSchema, name: string): { name: string; property: SchemaProperty } {
+  const match = findSchemaProperty(schema, name);
+  if (!match) {
+    throw new Error(`Unknown property "${name}". Properties: ${Object.keys(schema).join(', ')}`);
+  }
+  return match;
+}
+
+function requireOptionProperty(schema: DatabaseSchema, name: string): { name: string; property: SchemaProperty & { type: OptionType } } {
+  const match = requireProperty(schema, name);
+  if (match.property.type === 'status') {
+    throw new Error('Notion\'s API cannot change status options. Edit them in the Notion app.');
+  }
+  if (!isOptionType(match.property.type)) {
+    throw new Error(`"${match.name}" has type ${match.property.type}; options only exist on select and multi_select.`);
+  }
+  return match as { name: string; property: SchemaProperty & { type: OptionType } };
+}
+
+function requireOption(property: string, options: Option[], name: string): Option {
+  const option = findOption(options, name);
+  if (!option) {
+    throw new Error(`Unknown option "${name}" for "${property}". Options: ${options.map((o) => o.name).join(', ')}`);
+  }
+  return option;
+}
+
+function optionsOf(property: SchemaProperty): Option[] {
+  if (property.type === 'select') return property.select.options;
+  if (property.type === 'multi_select') return property.multi_select.options;
+  return [];
+}
+
+function isOptionType(type: string): type is OptionType {
+  return type === 'select' || type === 'multi_select';
+}
+
+function hasConfig(config: PropertyConfigOptions): boolean {
+  return Object.values(config).some((value) => value !== undefined);
+}
+
+function checkColor(color?: string): void {
+  if (color && !OPTION_COLORS.includes(color)) {
+    throw new Error(`Invalid color "${color}". Use ${OPTION_COLORS.join(', ')}.`);
+  }
+}
+
+// Notion rejects commas in option names
+function checkOptionName(name: string): void {
+  if (name.includes(',')) {
+    throw new Error(`Option names cannot contain commas: "${name}".`);
+  }
+}
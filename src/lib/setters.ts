@@ -0,0 +1,280 @@
+import { getDatabase, queryDatabase } from './client.js';
+import { listPropertyItemIds } from './expand.js';
+import { listAllUsers } from './mentions.js';
+import {
+  findOption,
+  findSchemaProperty,
+  getTitlePropertyName,
+  normalizeId,
+  toList,
+  toPropertyValue,
+  type DatabaseSchema,
+  type PropertyRequest,
+  type SchemaProperty,
+} from './properties.js';
+import type { DatabaseObjectResponse, PageObjectResponse, PropertyValue, UserObjectResponse } from '../types/index.js';
+
+export type SetterOperation = '=' | '+=' | '-=';
+
+export interface PropertySetter {
+  name: string;
+  operation: SetterOperation;
+  value: string;
+}
+
+// Pages outside a database only have a title
+export const PAGE_SCHEMA = {
+  title: { id: 'title', name: 'title', type: 'title', title: {} },
+} as unknown as DatabaseSchema;
+
+// Properties holding a list that += and -= add to or remove from
+const LIST_TYPES = new Set(['multi_select', 'people', 'relation']);
+
+// People and related pages given by email, name or title, mapped to their IDs
+export interface SetterLookup {
+  users?: Map<string, string>;
+  pages?: Map<string, string>;
+}
+
+type PageProperties = PageObjectResponse['properties'];
+
+// Page objects cut relations and people off at this many entries
+const PAGE_LIST_LIMIT = 25;
+
+// Reads every entry (IDs) of a relation or people property
+export type ListReader = (property: PropertyValue) => Promise<string[]>;
+
+// Parses "Name=value", "Name+=value" or "Name-=value"
+export function parsePropertySetter(input: string): PropertySetter {
+  const index = input.indexOf('=');
+  if (index <= 0) {
+    throw new Error(`Invalid --set "${input}". Use Name=value, Name+=value or Name-=value.`);
+  }
+
+  const before = input[index - 1];
+  const operation: SetterOperation = before === '+' ? '+=' : before === '-' ? '-=' : '=';
+  const name = input.slice(0, operation === '=' ? index : index - 1).trim();
+  if (!name) {
+    throw new Error(`Invalid --set "${input}": missing property name.`);
+  }
+
+  return { name, operation, value: input.slice(index + 1).trim() };
+}
+
+// Converts --set values into property payloads for a page in a database with
+// the given schema. People, and related pages given by title, are looked up.
+// current is the page being updated, whose values += and -= start from.
+export async function resolvePropertySetters(
+  inputs: string[],
+  schema: DatabaseSchema,
+  current?: PageObjectResponse,
+  apiKey?: string,
+  configPath?: string
+): Promise<Record<string, PropertyRequest>> {
+  const setters = inputs.map(parsePropertySetter);
+  const properties = current
+    ? await completeLists(setters, schema, current.properties, (property) =>
+      listPropertyItemIds(current.id, property.id, apiKey, configPath))
+    : {};
+  const lookup: SetterLookup = {};
+
+  const references = (type: string) => setters.flatMap((setter) => {
+    const match = findSchemaProperty(schema, setter.name);
+    return match?.property.type === type ? toList(setter.value).filter((value) => !isId(value)) : [];
+  });
+
+  const people = references('people');
+  if (people.length > 0) {
+    lookup.users = matchPeople(people, await listAllUsers(apiKey, configPath));
+  }
+
+  const relations = setters.flatMap((setter) => {
+    const match = findSchemaProperty(schema, setter.name);
+    if (match?.property.type !== 'relation') return [];
+    const databaseId = match.property.relation.database_id;
+    return toList(setter.value).filter((value) => !isId(value)).map((title) => ({ databaseId, title }));
+  });
+  if (relations.length > 0) {
+    lookup.pages = new Map();
+    for (const { databaseId, title } of relations) {
+      const id = await findPageByTitle(databaseId, title, apiKey, configPath);
+      if (id) lookup.pages.set(title.toLowerCase(), id);
+    }
+  }
+
+  return buildPropertyValues(setters, schema, properties, lookup);
+}
+
+// Reads the full value of truncated relation and people properties that +=
+// or -= start from, so entries past the first 25 are not dropped
+export async function completeLists(
+  setters: PropertySetter[],
+  schema: DatabaseSchema,
+  current: PageProperties,
+  read: ListReader
+): Promise<PageProperties> {
+  const properties = { ...current };
+  const done = new Set<string>();
+
+  for (const setter of setters) {
+    if (setter.operation === '=') continue;
+    const name = findSchemaProperty(schema, setter.name)?.name;
+    const property = name ? current[name] : undefined;
+    if (!name || !property || done.has(name) || !isTruncated(property)) continue;
+    done.add(name);
+
+    const ids = await read(property);
+    properties[name] = property.type === 'relation'
+      ? { ...property, relation: ids.map((id) => ({ id })), has_more: false } as PropertyValue
+      : { ...property, people: ids.map((id) => ({ object: 'user', id })) } as PropertyValue;
+  }
+
+  return properties;
+}
+
+export function buildPropertyValues(
+  setters: PropertySetter[],
+  schema: DatabaseSchema,
+  current: PageProperties = {},
+  lookup: SetterLookup = {}
+): Record<string, PropertyRequest> {
+  const values: Record<string, PropertyRequest> = {};
+  // Working value of list properties, so several += and -= add up
+  const lists = new Map<string, string[]>();
+
+  for (const setter of setters) {
+    const match = findSchemaProperty(schema, setter.name);
+    if (!match) {
+      throw new Error(`Unknown property "${setter.name}". Properties: ${Object.keys(schema).join(', ')}`);
+    }
+    const { name, property } = match;
+
+    if (!LIST_TYPES.has(property.type)) {
+      if (setter.operation !== '=') {
+        throw new Error(`Property "${name}" has type ${property.type}; ${setter.operation} only works for multi_select, people and relation.`);
+      }
+      values[name] = toPropertyValue(name, property, checkOption(name, property, setter.value));
+      continue;
+    }
+
+    const items = toList(setter.value).map((value) => resolveListItem(name, property, value, lookup));
+    const existing = lists.get(name) ?? (setter.operation === '=' ? [] : currentList(current[name]));
+    const same = (a: string, b: string) => (property.type === 'multi_select' ? a === b : compactId(a) === compactId(b));
+
+    let next: string[];
+    if (setter.operation === '=') {
+      next = items;
+    } else if (setter.operation === '+=') {
+      next = [...existing, ...items.filter((item) => !existing.some((value) => same(value, item)))];
+    } else {
+      next = existing.filter((value) => !items.some((item) => same(value, item)));
+    }
+
+    lists.set(name, next);
+    values[name] = toPropertyValue(name, property, next);
+  }
+
+  return values;
+}
+
+// Select-like values must be existing options; returns the option's exact name
+function checkOption(name: string, property: SchemaProperty, value: string): string {
+  if (property.type !== 'select' || value === '') return value;
+  const option = findOption(property.select.options, value);
+  if (!option) {
+    throw new Error(
+      `Unknown option "${value}" for "${name}". Options: ${property.select.options.map((o) => o.name).join(', ')}`
+    );
+  }
+  return option.name;
+}
+
+function resolveListItem(name: string, property: SchemaProperty, value: string, lookup: SetterLookup): string {
+  if (property.type === 'multi_select') {
+    const option = findOption(property.multi_select.options, value);
+    if (!option) {
+      throw new Error(
+        `Unknown option "${value}" for "${name}". Options: ${property.multi_select.options.map((o) => o.name).join(', ')}`
+      );
+    }
+    return option.name;
+  }
+
+  if (isId(value)) return normalizeId(value);
+
+  if (property.type === 'people') {
+    const id = lookup.users?.get(value.toLowerCase());
+    if (!id) throw new Error(`No user matches "${value}" for "${name}". Use an email, full name or user ID.`);
+    return id;
+  }
+
+  const id = lookup.pages?.get(value.toLowerCase());
+  if (!id) throw new Error(`No page titled "${value}" in the database related to "${name}". Use a title, page ID or URL.`);
+  return id;
+}
+
+function currentList(prop: PageProperties[string] | undefined): string[] {
+  switch (prop?.type) {
+    case 'multi_select':
+      return prop.multi_select.map((option) => option.name);
+    case 'people':
+      return prop.people.map((user) => user.id);
+    case 'relation':
+      return prop.relation.map((page) => page.id);
+    default:
+      return [];
+  }
+}
+
+// Matches by email, then by full name (case-insensitive). Ambiguous names
+// stay unmatched.
+export function matchPeople(references: string[], users: UserObjectResponse[]): Map<string, string> {
+  const people = users.filter((user) => user.type === 'person');
+  const resolved = new Map<string, string>();
+
+  for (const reference of references) {
+    const key = reference.toLowerCase();
+    const byEmail = people.filter((user) => user.type === 'person' && user.person.email?.toLowerCase() === key);
+    const candidates = byEmail.length > 0 ? byEmail : people.filter((user) => user.name?.toLowerCase() === key);
+    if (candidates.length === 1) resolved.set(key, candidates[0].id);
+  }
+
+  return resolved;
+}
+
+// The single page in the database with this exact title
+export async function findPageByTitle(
+  databaseId: string,
+  title: string,
+  apiKey?: string,
+  configPath?: string
+): Promise<string | undefined> {
+  const database = await getDatabase(databaseId, apiKey, configPath) as DatabaseObjectResponse;
+  const titleProperty = getTitlePropertyName(database.properties);
+  if (!titleProperty) return undefined;
+
+  const response = await queryDatabase(
+    databaseId,
+    { filter: { property: titleProperty, title: { equals: title } }, page_size: 2 },
+    apiKey,
+    configPath
+  );
+  return response.results.length === 1 ? response.results[0].id : undefined;
+}
+
+// The SDK types leave out has_more, which the API sends for relations;
+// people lists carry no flag, so a full first page counts as truncated
+function isTruncated(property: PropertyValue): boolean {
+  if (property.type === 'relation') {
+    return Boolean((property as { has_more?: boolean }).has_more) || property.relation.length >= PAGE_LIST_LIMIT;
+  }
+  return property.type === 'people' && property.people.length >= PAGE_LIST_LIMIT;
+}
+
+function isId(value: string): boolean {
+  return /^[0-9a-f]{32}$/i.test(normalizeId(value));
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
@@ -0,0 +1,191 @@
+import { extractDatabaseTitle, extractPageTitle } from './output.js';
+import { findSchemaProperty, fromPropertyValue, type DatabaseSchema } from './properties.js';
+import type { DatabaseObjectResponse, PageObjectResponse, PropertyValue, SortOption } from '../types/index.js';
+
+type Direction = SortOption['direction'];
+type Timestamp = 'created_time' | 'last_edited_time';
+
+export interface SortKey {
+  name: string;
+  direction: Direction;
+}
+
+export interface SortPlan {
+  sorts: SortOption[];
+  // Set when a key cannot be sorted by Notion: every result is then fetched
+  // and all keys are applied locally, so the order stays the same
+  clientSide: boolean;
+  // Properties that forced local sorting
+  localKeys: string[];
+}
+
+const DIRECTIONS: Record<string, Direction> = {
+  asc: 'ascending',
+  ascending: 'ascending',
+  desc: 'descending',
+  descending: 'descending',
+};
+
+const TIMESTAMPS: Record<string, Timestamp> = {
+  '@created': 'created_time',
+  '@created_time': 'created_time',
+  '@last_edited': 'last_edited_time',
+  '@last_edited_time': 'last_edited_time',
+};
+
+// Rollups that show the related values themselves come back as arrays
+const ARRAY_ROLLUP_FUNCTIONS = new Set(['show_original', 'show_unique']);
+
+// Parses "Priority:desc,Due:asc,@last_edited:desc". The direction defaults
+// to ascending.
+export function parseSortSpec(spec: string): SortKey[] {
+  const keys = spec.split(',').map((part) => part.trim()).filter(Boolean).map((part) => {
+    const index = part.lastIndexOf(':');
+    const suffix = index > 0 ? part.slice(index + 1).trim().toLowerCase() : '';
+    if (index > 0 && !DIRECTIONS[suffix]) {
+      throw new Error(`Invalid sort direction "${part.slice(index + 1)}" in "${part}". Use asc or desc.`);
+    }
+    return {
+      name: index > 0 ? part.slice(0, index).trim() : part,
+      direction: index > 0 ? DIRECTIONS[suffix] : 'ascending',
+    };
+  });
+
+  if (keys.length === 0) {
+    throw new Error(`Invalid sort "${spec}". Use Name:asc,Other:desc or @last_edited:desc.`);
+  }
+  return keys;
+}
+
+export function timestampOf(key: SortKey): Timestamp | undefined {
+  return TIMESTAMPS[key.name.toLowerCase()];
+}
+
+// Checks the keys against the schema and decides whether Notion can do the sorting
+export function planDatabaseSort(keys: SortKey[], schema: DatabaseSchema): SortPlan {
+  const sorts: SortOption[] = [];
+  const localKeys: string[] = [];
+
+  for (const key of keys) {
+    const timestamp = timestampOf(key);
+    if (timestamp) {
+      sorts.push({ timestamp, direction: key.direction });
+      continue;
+    }
+
+    const match = findSchemaProperty(schema, key.name);
+    if (!match) {
+      throw new Error(
+        `Unknown property "${key.name}". Properties: ${Object.keys(schema).join(', ')}, @created, @last_edited`
+      );
+    }
+
+    const { name, property } = match;
+    if (
+      property.type === 'relation' ||
+      property.type === 'files' ||
+      (property.type === 'rollup' && ARRAY_ROLLUP_FUNCTIONS.has(property.rollup.function))
+    ) {
+      localKeys.push(name);
+    }
+    sorts.push({ property: name, direction: key.direction });
+  }
+
+  return { sorts, clientSide: localKeys.length > 0, localKeys };
+}
+
+// Search can only sort by last edited time. Other keys (title, @created, or
+// several keys) are applied locally to the fetched results. A bare
+// "ascending" or "descending" sorts by last edited time.
+export function planSearchSort(spec: string): SortPlan {
+  const direction = DIRECTIONS[spec.trim().toLowerCase()];
+  const keys = direction ? [{ name: '@last_edited', direction }] : parseSortSpec(spec);
+
+  const sorts = keys.map((key): SortOption => {
+    const timestamp = timestampOf(key);
+    if (timestamp) return { timestamp, direction: key.direction };
+    if (key.name.toLowerCase() === 'title') return { property: 'title', direction: key.direction };
+    throw new Error(`Search results can only be sorted by title, @created and @last_edited, not "${key.name}".`);
+  });
+
+  const serverSide = sorts.length === 1 && 'timestamp' in sorts[0] && sorts[0].timestamp === 'last_edited_time';
+  return {
+    sorts,
+    clientSide: !serverSide,
+    localKeys: serverSide ? [] : keys.map((key) => key.name),
+  };
+}
+
+export function sortSearchResults<T extends { object: string }>(results: T[], sorts: SortOption[]): T[] {
+  return sortItems(results, sorts, (item, sort) => {
+    if (item.object !== 'page' && item.object !== 'database') return null;
+    const result = item as unknown as PageObjectResponse | DatabaseObjectResponse;
+    if ('timestamp' in sort) return result[sort.timestamp];
+    return result.object === 'page' ? extractPageTitle(result) : extractDatabaseTitle(result);
+  });
+}
+
+// Sorts pages locally by the given keys. Relations, files and array rollups
+// sort by their number of entries; empty values always go last.
+export function sortPages(pages: PageObjectResponse[], sorts: SortOption[]): PageObjectResponse[] {
+  return sortItems(pages, sorts, (page, sort) => {
+    if ('timestamp' in sort) return page[sort.timestamp];
+    const property = page.properties[sort.property];
+    return property ? sortValue(property) : null;
+  });
+}
+
+// Stable multi-key sort; value returns the item's value for one key
+export function sortItems<T>(
+  items: T[],
+  sorts: SortOption[],
+  value: (item: T, sort: SortOption) => unknown
+): T[] {
+  return items
+    .map((item, index) => ({ item, index, values: sorts.map((sort) => value(item, sort)) }))
+    .sort((a, b) => {
+      for (let i = 0; i < sorts.length; i++) {
+        const order = compareValues(a.values[i], b.values[i], sorts[i].direction);
+        if (order !== 0) return order;
+      }
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+export function compareValues(a: unknown, b: unknown, direction: Direction): number {
+  const aEmpty = isEmpty(a);
+  const bEmpty = isEmpty(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  let order: number;
+  if (typeof a === 'number' && typeof b === 'number') {
+    order = a - b;
+  } else if (typeof a === 'boolean' && typeof b === 'boolean') {
+    order = Number(a) - Number(b);
+  } else {
+    order = String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+  }
+  return direction === 'ascending' ? order : -order;
+}
+
+function sortValue(property: PropertyValue): unknown {
+  switch (property.type) {
+    case 'relation':
+      return property.relation.length;
+    case 'files':
+      return property.files.length;
+    case 'rollup':
+      if (property.rollup.type === 'array') return property.rollup.array.length;
+      break;
+  }
+
+  const value = fromPropertyValue(property);
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && value !== null && 'start' in value) return (value as { start: string }).start;
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
@@ -0,0 +1,172 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import type { BlockObjectRequest, CreatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { fetchBlockTree } from './blocks.js';
+import { getDatabase, getPage } from './client.js';
+import { blocksToRequests, duplicatePageParams, type DuplicateParent } from './duplicate.js';
+import { parseFrontMatter, type FrontMatterDocument } from './frontmatter.js';
+import { buildPageFromDocument, findPeopleReferences } from './import.js';
+import { listAllUsers } from './mentions.js';
+import { textToRichText } from './properties.js';
+import { matchPeople } from './setters.js';
+import type { DatabaseObjectResponse, PageObjectResponse } from '../types/index.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const TOKEN_PREFIX = '__onotion_placeholder_';
+const TOKEN_PATTERN = /__onotion_placeholder_(\d+)__/g;
+
+export interface TemplatePage {
+  params: CreatePageParameters;
+  children: BlockObjectRequest[];
+  warnings: string[];
+}
+
+export interface TemplateOptions {
+  // Replaces the template's title (placeholders are filled in here too)
+  title?: string;
+}
+
+// Parses repeated "name=value" options
+export function parseTemplateVariables(inputs: string[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const input of inputs) {
+    const index = input.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid --var "${input}". Use name=value.`);
+    }
+    variables[input.slice(0, index).trim()] = input.slice(index + 1);
+  }
+  return variables;
+}
+
+// Replaces {{name}} placeholders. Unknown names are left as they are and
+// added to missing.
+export function fillTemplate(text: string, variables: Record<string, string>, missing = new Set<string>()): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (Object.hasOwn(variables, name)) return variables[name];
+    missing.add(name);
+    return placeholder;
+  });
+}
+
+// fillTemplate applied to every string in a request: titles, rich text,
+// property values, URLs…
+export function fillTemplateValues<T>(value: T, variables: Record<string, string>, missing = new Set<string>()): T {
+  return mapStrings(value, (text) => fillTemplate(text, variables, missing));
+}
+
+// Parses the front matter of a Markdown template, then fills in the parsed
+// values and the body. Placeholders are swapped for plain tokens while the
+// YAML is parsed, so `title: {{name}}` needs no quotes and values such as
+// "a: b", "#x" or several lines stay text.
+export function fillMarkdownTemplate(
+  source: string,
+  variables: Record<string, string>,
+  missing = new Set<string>()
+): FrontMatterDocument {
+  const placeholders: string[] = [];
+  const masked = source.replace(PLACEHOLDER_PATTERN, (placeholder) => `${TOKEN_PREFIX}${placeholders.push(placeholder) - 1}__`);
+  const unmask = (text: string) => text.replace(TOKEN_PATTERN, (_token, index: string) => placeholders[Number(index)]);
+
+  const { data, body } = parseFrontMatter(masked);
+  const restored = Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [unmask(key), mapStrings(value, unmask)])
+  );
+
+  return {
+    data: fillTemplateValues(restored, variables, missing),
+    body: fillTemplate(unmask(body), variables, missing),
+  };
+}
+
+// A template is either a Notion page, whose properties and blocks are copied,
+// or a local Markdown file with optional front matter.
+export async function buildPageFromTemplate(
+  template: string,
+  parent: DuplicateParent,
+  variables: Record<string, string>,
+  options: TemplateOptions = {},
+  apiKey?: string,
+  configPath?: string
+): Promise<TemplatePage> {
+  const missing = new Set<string>();
+  const page = existsSync(template)
+    ? await buildFromFile(template, parent, variables, missing, apiKey, configPath)
+    : await buildFromPage(template, parent, variables, missing, apiKey, configPath);
+
+  if (options.title !== undefined) {
+    setTitle(page.params, fillTemplate(options.title, variables, missing));
+  }
+
+  for (const name of missing) {
+    page.warnings.push(`No value for {{${name}}}; pass --var ${name}=<value>. Left as is.`);
+  }
+
+  return page;
+}
+
+async function buildFromPage(
+  pageId: string,
+  parent: DuplicateParent,
+  variables: Record<string, string>,
+  missing: Set<string>,
+  apiKey?: string,
+  configPath?: string
+): Promise<TemplatePage> {
+  const source = await getPage(pageId, apiKey, configPath) as PageObjectResponse;
+  const blocks = await fetchBlockTree(pageId, Infinity, apiKey, configPath);
+  const warnings: string[] = [];
+
+  const params = duplicatePageParams(source, parent, undefined, warnings);
+  const children = blocksToRequests(blocks, warnings);
+
+  return {
+    params: fillTemplateValues(params, variables, missing),
+    children: fillTemplateValues(children, variables, missing),
+    warnings,
+  };
+}
+
+async function buildFromFile(
+  file: string,
+  parent: DuplicateParent,
+  variables: Record<string, string>,
+  missing: Set<string>,
+  apiKey?: string,
+  configPath?: string
+): Promise<TemplatePage> {
+  const schema = parent.type === 'database_id'
+    ? (await getDatabase(parent.id, apiKey, configPath) as DatabaseObjectResponse).properties
+    : undefined;
+
+  const document = fillMarkdownTemplate(readFileSync(file, 'utf8'), variables, missing);
+  const people = schema ? findPeopleReferences(document.data, schema) : [];
+  const { params, children, warnings } = buildPageFromDocument(document, {
+    parentId: parent.id,
+    schema,
+    fallbackTitle: basename(file, extname(file)),
+    users: people.length > 0 ? matchPeople(people, await listAllUsers(apiKey, configPath)) : undefined,
+  });
+
+  return { params, children, warnings };
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map)) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])
+    ) as T;
+  }
+  return value;
+}
+
+function setTitle(params: CreatePageParameters, title: string): void {
+  const properties = params.properties as Record<string, unknown>;
+  const key = Object.keys(properties).find((name) => {
+    const value = properties[name];
+    return typeof value === 'object' && value !== null && 'title' in value;
+  }) ?? 'title';
+  properties[key] = { title: textToRichText(title) };
+}
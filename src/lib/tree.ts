@@ -0,0 +1,100 @@
+import chalk from 'chalk';
+import { listAllBlockChildren } from './blocks.js';
+import { getPage } from './client.js';
+import { extractPageTitle } from './output.js';
+import type { BlockObjectResponse, PageObjectResponse } from '../types/index.js';
+
+// Blocks that can hold sub-pages and are worth opening. Text, tables, code
+// and the like are never searched, which keeps large pages fast.
+const CONTAINER_TYPES = new Set([
+  'column_list', 'column', 'toggle', 'synced_block', 'callout',
+  'heading_1', 'heading_2', 'heading_3',
+]);
+
+export interface TreeNode {
+  id: string;
+  type: 'page' | 'database';
+  title: string;
+  last_edited_time: string;
+  children: TreeNode[];
+}
+
+// Where the tree is read from; by default the Notion API
+export interface TreeReader {
+  getPage(pageId: string): Promise<PageObjectResponse>;
+  listChildren(blockId: string): Promise<BlockObjectResponse[]>;
+}
+
+// The page and every child_page/child_database below it, depth levels deep
+export async function fetchPageTree(
+  pageId: string,
+  depth: number,
+  apiKey?: string,
+  configPath?: string,
+  reader: TreeReader = {
+    getPage: async (id) => await getPage(id, apiKey, configPath) as PageObjectResponse,
+    listChildren: (id) => listAllBlockChildren(id, apiKey, configPath),
+  }
+): Promise<TreeNode> {
+  const page = await reader.getPage(pageId);
+  return {
+    id: page.id,
+    type: 'page',
+    title: extractPageTitle(page),
+    last_edited_time: page.last_edited_time,
+    children: depth > 0 ? await fetchTreeChildren(page.id, depth, reader) : [],
+  };
+}
+
+export function formatTree(root: TreeNode, color = true): string {
+  const paint = (style: (text: string) => string, text: string) => (color ? style(text) : text);
+  const label = (node: TreeNode) => {
+    const title = node.type === 'database' ? `${paint(chalk.cyan, '[database]')} ${node.title}` : node.title;
+    const edited = node.last_edited_time.slice(0, 16).replace('T', ' ');
+    return `${title} ${paint(chalk.gray, `${node.id} · edited ${edited}`)}`;
+  };
+
+  const lines = [label(root)];
+  const walk = (nodes: TreeNode[], prefix: string) => {
+    nodes.forEach((node, index) => {
+      const last = index === nodes.length - 1;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label(node)}`);
+      walk(node.children, `${prefix}${last ? '    ' : '│   '}`);
+    });
+  };
+  walk(root.children, '');
+
+  return lines.join('\n');
+}
+
+async function fetchTreeChildren(blockId: string, depth: number, reader: TreeReader): Promise<TreeNode[]> {
+  const nodes: TreeNode[] = [];
+
+  for (const block of await reader.listChildren(blockId)) {
+    // Trashed sub-pages can still be listed
+    if (block.archived || (block as { in_trash?: boolean }).in_trash) continue;
+
+    if (block.type === 'child_page' || block.type === 'child_database') {
+      nodes.push({
+        id: block.id,
+        type: block.type === 'child_page' ? 'page' : 'database',
+        title: blockTitle(block),
+        last_edited_time: block.last_edited_time,
+        children: block.type === 'child_page' && depth > 1
+          ? await fetchTreeChildren(block.id, depth - 1, reader)
+          : [],
+      });
+    } else if (block.has_children && CONTAINER_TYPES.has(block.type)) {
+      // Sub-pages inside columns or toggles still belong to the same level
+      nodes.push(...await fetchTreeChildren(block.id, depth, reader));
+    }
+  }
+
+  return nodes;
+}
+
+function blockTitle(block: BlockObjectResponse): string {
+  if (block.type === 'child_page') return block.child_page.title || 'Untitled';
+  if (block.type === 'child_database') return block.child_database.title || 'Untitled';
+  return 'Untitled';
+}
@@ -0,0 +1,536 @@
+import {
+  findOption,
+  findSchemaProperty,
+  normalizeId,
+  type DatabaseSchema,
+  type SchemaProperty,
+} from './properties.js';
+import type { DatabaseFilter } from '../types/index.js';
+
+// Notion accepts and/or groups nested at most two levels below the top one
+const MAX_GROUP_DEPTH = 3;
+
+export type WhereOperator =
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'contains' | 'not contains' | 'starts with' | 'ends with'
+  | 'is empty' | 'is not empty';
+
+interface Token {
+  type: 'word' | 'string' | 'number' | 'date' | 'operator' | '(' | ')' | 'end';
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Literal {
+  kind: 'string' | 'number' | 'boolean' | 'date';
+  value: string | number | boolean;
+  token: Token;
+}
+
+export type WhereNode =
+  | { kind: 'group'; operator: 'and' | 'or'; children: WhereNode[]; token: Token }
+  | { kind: 'condition'; property: Token; operator: WhereOperator; operatorToken: Token; value?: Literal };
+
+export interface WhereOptions {
+  // Lowercased email or name → user ID, for people conditions
+  users?: Map<string, string>;
+  // Reference point for today, yesterday and today±N
+  now?: Date;
+}
+
+export class WhereSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    const marker = ' '.repeat(start) + '^'.repeat(Math.max(1, end - start));
+    super(`${message}\n  ${expression}\n  ${marker}`);
+    this.name = 'WhereSyntaxError';
+  }
+}
+
+const TEXT_OPERATORS: Partial<Record<WhereOperator, string>> = {
+  '=': 'equals',
+  '!=': 'does_not_equal',
+  contains: 'contains',
+  'not contains': 'does_not_contain',
+  'starts with': 'starts_with',
+  'ends with': 'ends_with',
+};
+
+const NUMBER_OPERATORS: Partial<Record<WhereOperator, string>> = {
+  '=': 'equals',
+  '!=': 'does_not_equal',
+  '>': 'greater_than',
+  '<': 'less_than',
+  '>=': 'greater_than_or_equal_to',
+  '<=': 'less_than_or_equal_to',
+};
+
+const DATE_OPERATORS: Partial<Record<WhereOperator, string>> = {
+  '=': 'equals',
+  '<': 'before',
+  '>': 'after',
+  '<=': 'on_or_before',
+  '>=': 'on_or_after',
+};
+
+const EQUALITY_OPERATORS: Partial<Record<WhereOperator, string>> = {
+  '=': 'equals',
+  '!=': 'does_not_equal',
+};
+
+const LIST_OPERATORS: Partial<Record<WhereOperator, string>> = {
+  contains: 'contains',
+  'not contains': 'does_not_contain',
+};
+
+const RELATIVE_DATE_PATTERN = /^(today|yesterday|tomorrow)([+-]\d+)?$/i;
+
+// Parses and compiles a --where expression such as
+//   Status = "Done" and (Priority >= 2 or Tags contains "urgent") and Due < today
+// into a Notion filter for a database with the given schema.
+export function compileWhere(expression: string, schema: DatabaseSchema, options: WhereOptions = {}): DatabaseFilter {
+  return compileWhereNode(parseWhere(expression), expression, schema, options);
+}
+
+export function parseWhere(expression: string): WhereNode {
+  return new Parser(expression).parse();
+}
+
+export function compileWhereNode(
+  node: WhereNode,
+  expression: string,
+  schema: DatabaseSchema,
+  options: WhereOptions = {}
+): DatabaseFilter {
+  return new Compiler(expression, schema, options).compile(node, 1) as DatabaseFilter;
+}
+
+// Values of people conditions that are not user IDs and need a lookup
+export function findUserReferences(node: WhereNode, schema: DatabaseSchema): string[] {
+  if (node.kind === 'group') {
+    return [...new Set(node.children.flatMap((child) => findUserReferences(child, schema)))];
+  }
+
+  const match = findSchemaProperty(schema, node.property.text);
+  const type = match?.property.type;
+  if (!node.value || (type !== 'people' && type !== 'created_by' && type !== 'last_edited_by')) return [];
+  const value = String(node.value.value);
+  return isId(value) ? [] : [value];
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const patterns: Array<[Token['type'], RegExp]> = [
+    ['date', /\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?(?![\w-])/y],
+    ['number', /-?\d+(?:\.\d+)?(?![\w-])/y],
+    ['operator', /!=|<=|>=|=|<|>/y],
+    ['word', /[\p{L}_][\p{L}\p{N}_.-]*(?:\+\d+)?/uy],
+  ];
+
+  let position = 0;
+  while (position < expression.length) {
+    const char = expression[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, text: char, start: position, end: position + 1 });
+      position++;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      let text = '';
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === '\\' && end + 1 < expression.length) end++;
+        text += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        throw new WhereSyntaxError('Unterminated string', expression, position, expression.length);
+      }
+      tokens.push({ type: 'string', text, start: position, end: end + 1 });
+      position = end + 1;
+      continue;
+    }
+
+    const match = patterns.find(([, pattern]) => {
+      pattern.lastIndex = position;
+      return pattern.test(expression);
+    });
+    if (!match) {
+      throw new WhereSyntaxError(`Unexpected character "${char}"`, expression, position, position + 1);
+    }
+
+    const [type, pattern] = match;
+    const end = pattern.lastIndex;
+    tokens.push({ type, text: expression.slice(position, end), start: position, end });
+    position = end;
+  }
+
+  tokens.push({ type: 'end', text: '', start: expression.length, end: expression.length });
+  return tokens;
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): WhereNode {
+    if (this.peek().type === 'end') {
+      throw this.error(this.peek(), 'Empty --where expression');
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw this.error(next, next.type === ')' ? 'Unmatched ")"' : `Expected "and" or "or", got "${next.text}"`);
+    }
+    return node;
+  }
+
+  private parseOr(): WhereNode {
+    return this.parseGroup('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): WhereNode {
+    return this.parseGroup('and', () => this.parsePrimary());
+  }
+
+  // Chains of the same operator become one group: a and (b and c) is a and b and c
+  private parseGroup(operator: 'and' | 'or', parseOperand: () => WhereNode): WhereNode {
+    const first = this.peek();
+    const children = [parseOperand()];
+    while (this.isWord(this.peek(), operator)) {
+      this.next();
+      children.push(parseOperand());
+    }
+    if (children.length === 1) return children[0];
+
+    const flattened = children.flatMap((child) =>
+      child.kind === 'group' && child.operator === operator ? child.children : [child]
+    );
+    return { kind: 'group', operator, children: flattened, token: first };
+  }
+
+  private parsePrimary(): WhereNode {
+    const token = this.peek();
+    if (token.type === '(') {
+      this.next();
+      const node = this.parseOr();
+      const close = this.next();
+      if (close.type !== ')') {
+        throw this.error(close, `Expected ")" to close the group opened at position ${token.start + 1}`);
+      }
+      // Point errors about the group at its opening parenthesis
+      return node.kind === 'group' ? { ...node, token } : node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): WhereNode {
+    const property = this.next();
+    if (property.type !== 'word' && property.type !== 'string') {
+      throw this.error(property, property.type === 'end' ? 'Expected a property name' : `Expected a property name, got "${property.text}"`);
+    }
+    if (this.isWord(property, 'and') || this.isWord(property, 'or')) {
+      throw this.error(property, `Expected a property name, got "${property.text}"`);
+    }
+
+    const operatorToken = this.peek();
+    const operator = this.parseOperator();
+    const end = this.tokens[this.index - 1];
+    const span = { ...operatorToken, end: end.end, text: this.expression.slice(operatorToken.start, end.end) };
+
+    if (operator === 'is empty' || operator === 'is not empty') {
+      return { kind: 'condition', property, operator, operatorToken: span };
+    }
+    return { kind: 'condition', property, operator, operatorToken: span, value: this.parseValue() };
+  }
+
+  private parseOperator(): WhereOperator {
+    const token = this.next();
+    if (token.type === 'operator') return token.text as WhereOperator;
+
+    if (this.isWord(token, 'contains')) return 'contains';
+    if (this.isWord(token, 'not') && this.isWord(this.peek(), 'contains')) {
+      this.next();
+      return 'not contains';
+    }
+    if ((this.isWord(token, 'starts') || this.isWord(token, 'ends')) && this.isWord(this.peek(), 'with')) {
+      this.next();
+      return this.isWord(token, 'starts') ? 'starts with' : 'ends with';
+    }
+    if (this.isWord(token, 'is')) {
+      const negated = this.isWord(this.peek(), 'not');
+      if (negated) this.next();
+      const empty = this.next();
+      if (!this.isWord(empty, 'empty')) {
+        throw this.error(empty, `Expected "empty" after "${negated ? 'is not' : 'is'}"`);
+      }
+      return negated ? 'is not empty' : 'is empty';
+    }
+
+    throw this.error(
+      token,
+      `Expected an operator (=, !=, <, <=, >, >=, contains, not contains, starts with, ends with, is empty), got "${token.text}"`
+    );
+  }
+
+  private parseValue(): Literal {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return { kind: 'string', value: token.text, token };
+      case 'number':
+        return { kind: 'number', value: Number(token.text), token };
+      case 'date':
+        return { kind: 'date', value: token.text, token };
+      case 'word': {
+        const lower = token.text.toLowerCase();
+        if (lower === 'and' || lower === 'or') break;
+        if (lower === 'true' || lower === 'false') return { kind: 'boolean', value: lower === 'true', token };
+        if (RELATIVE_DATE_PATTERN.test(token.text)) return { kind: 'date', value: token.text, token };
+        // Bare words are strings: Status = Done
+        return { kind: 'string', value: token.text, token };
+      }
+    }
+    throw this.error(token, token.type === 'end' ? 'Expected a value' : `Expected a value, got "${token.text}"`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isWord(token: Token, word: string): boolean {
+    return token.type === 'word' && token.text.toLowerCase() === word;
+  }
+
+  private error(token: Token, message: string): WhereSyntaxError {
+    return new WhereSyntaxError(message, this.expression, token.start, Math.max(token.end, token.start + 1));
+  }
+}
+
+type Operation = Record<string, unknown>;
+
+class Compiler {
+  constructor(
+    private readonly expression: string,
+    private readonly schema: DatabaseSchema,
+    private readonly options: WhereOptions
+  ) {}
+
+  compile(node: WhereNode, depth: number): Record<string, unknown> {
+    if (node.kind === 'group') {
+      if (depth > MAX_GROUP_DEPTH) {
+        throw this.error(node.token, `Notion filters can only nest and/or groups ${MAX_GROUP_DEPTH - 1} levels deep`);
+      }
+      return { [node.operator]: node.children.map((child) => this.compile(child, depth + 1)) };
+    }
+    return this.compileCondition(node);
+  }
+
+  private compileCondition(node: Extract<WhereNode, { kind: 'condition' }>): Record<string, unknown> {
+    const match = findSchemaProperty(this.schema, node.property.text);
+    if (!match) {
+      throw this.error(
+        node.property,
+        `Unknown property "${node.property.text}". Properties: ${Object.keys(this.schema).join(', ')}`
+      );
+    }
+
+    const { name, property } = match;
+    const filter = (operation: Operation) => ({ property: name, [property.type]: operation });
+
+    switch (property.type) {
+      case 'title':
+      case 'rich_text':
+      case 'url':
+      case 'email':
+      case 'phone_number':
+        return filter(this.operation(node, name, property, TEXT_OPERATORS, (value) => this.text(value)));
+
+      case 'number':
+        return filter(this.operation(node, name, property, NUMBER_OPERATORS, (value) => this.number(value)));
+
+      case 'checkbox':
+        if (node.operator === 'is empty' || node.operator === 'is not empty') {
+          throw this.error(node.operatorToken, `Checkbox "${name}" is never empty; compare it with true or false`);
+        }
+        return filter(this.operation(node, name, property, EQUALITY_OPERATORS, (value) => this.boolean(value)));
+
+      case 'select':
+        return filter(this.operation(node, name, property, EQUALITY_OPERATORS, (value) =>
+          this.option(value, name, property.select.options)));
+
+      case 'status':
+        return filter(this.operation(node, name, property, EQUALITY_OPERATORS, (value) =>
+          this.option(value, name, property.status.options)));
+
+      case 'multi_select':
+        return filter(this.operation(node, name, property, LIST_OPERATORS, (value) =>
+          this.option(value, name, property.multi_select.options)));
+
+      case 'date':
+      case 'created_time':
+      case 'last_edited_time':
+        return filter(this.operation(node, name, property, DATE_OPERATORS, (value) => this.date(value)));
+
+      case 'people':
+      case 'created_by':
+      case 'last_edited_by':
+        return filter(this.operation(node, name, property, LIST_OPERATORS, (value) => this.user(value, name)));
+
+      case 'relation':
+        return filter(this.operation(node, name, property, LIST_OPERATORS, (value) => this.pageId(value, name)));
+
+      case 'files':
+        return filter(this.operation(node, name, property, {}, () => null));
+
+      case 'unique_id':
+        return filter(this.operation(node, name, property, NUMBER_OPERATORS, (value) => this.uniqueId(value)));
+
+      case 'formula':
+        return filter(this.formula(node, name, property));
+
+      case 'rollup':
+        return filter(this.rollup(node, name, property));
+
+      default:
+        throw this.error(node.property, `Property "${name}" has type ${(property as SchemaProperty).type}, which cannot be filtered`);
+    }
+  }
+
+  // Formula and rollup results have no declared type; the value decides it
+  private formula(node: Extract<WhereNode, { kind: 'condition' }>, name: string, property: SchemaProperty): Operation {
+    switch (node.value?.kind) {
+      case 'number':
+        return { number: this.operation(node, name, property, NUMBER_OPERATORS, (value) => this.number(value)) };
+      case 'boolean':
+        return { checkbox: this.operation(node, name, property, EQUALITY_OPERATORS, (value) => this.boolean(value)) };
+      case 'date':
+        return { date: this.operation(node, name, property, DATE_OPERATORS, (value) => this.date(value)) };
+      default:
+        return { string: this.operation(node, name, property, TEXT_OPERATORS, (value) => this.text(value)) };
+    }
+  }
+
+  private rollup(node: Extract<WhereNode, { kind: 'condition' }>, name: string, property: SchemaProperty): Operation {
+    switch (node.value?.kind) {
+      case 'number':
+        return { number: this.operation(node, name, property, NUMBER_OPERATORS, (value) => this.number(value)) };
+      case 'date':
+        return { date: this.operation(node, name, property, DATE_OPERATORS, (value) => this.date(value)) };
+      default:
+        // Text conditions match when any rolled-up value does
+        return { any: { rich_text: this.operation(node, name, property, TEXT_OPERATORS, (value) => this.text(value)) } };
+    }
+  }
+
+  private operation(
+    node: Extract<WhereNode, { kind: 'condition' }>,
+    name: string,
+    property: SchemaProperty,
+    operators: Partial<Record<WhereOperator, string>>,
+    convert: (value: Literal) => unknown
+  ): Operation {
+    if (node.operator === 'is empty') return { is_empty: true };
+    if (node.operator === 'is not empty') return { is_not_empty: true };
+
+    const key = operators[node.operator];
+    if (!key || !node.value) {
+      const allowed = [...Object.keys(operators), 'is empty', 'is not empty'].join(', ');
+      throw this.error(node.operatorToken, `"${node.operator}" does not work on ${property.type} property "${name}". Use ${allowed}`);
+    }
+    return { [key]: convert(node.value) };
+  }
+
+  private text(value: Literal): string {
+    return value.token.type === 'string' ? value.token.text : String(value.value);
+  }
+
+  private number(value: Literal): number {
+    if (value.kind !== 'number') throw this.error(value.token, `Expected a number, got "${value.token.text}"`);
+    return value.value as number;
+  }
+
+  private boolean(value: Literal): boolean {
+    if (value.kind !== 'boolean') throw this.error(value.token, `Expected true or false, got "${value.token.text}"`);
+    return value.value as boolean;
+  }
+
+  private date(value: Literal): string {
+    const text = String(value.value);
+    const relative = RELATIVE_DATE_PATTERN.exec(text);
+    if (relative) {
+      const offsets: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+      const date = new Date(this.options.now ?? Date.now());
+      date.setDate(date.getDate() + offsets[relative[1].toLowerCase()] + Number(relative[2] ?? 0));
+      return localDate(date);
+    }
+    if (Number.isNaN(Date.parse(text)) || value.kind === 'number' || value.kind === 'boolean') {
+      throw this.error(value.token, `Expected a date (YYYY-MM-DD, today, yesterday, tomorrow or today-7), got "${value.token.text}"`);
+    }
+    return text;
+  }
+
+  private option(value: Literal, name: string, options: Array<{ name: string }>): string {
+    const text = this.text(value);
+    const option = findOption(options, text);
+    if (!option) {
+      throw this.error(value.token, `Unknown option "${text}" for "${name}". Options: ${options.map((o) => o.name).join(', ')}`);
+    }
+    return option.name;
+  }
+
+  private user(value: Literal, name: string): string {
+    const text = this.text(value);
+    if (isId(text)) return normalizeId(text);
+    const id = this.options.users?.get(text.toLowerCase());
+    if (!id) throw this.error(value.token, `No user matches "${text}" for "${name}". Use an email, full name or user ID`);
+    return id;
+  }
+
+  private pageId(value: Literal, name: string): string {
+    const text = this.text(value);
+    if (!isId(text)) throw this.error(value.token, `Relation "${name}" is matched by page ID or URL, got "${text}"`);
+    return normalizeId(text);
+  }
+
+  // Accepts 12 or "TASK-12"
+  private uniqueId(value: Literal): number {
+    const match = /(\d+)$/.exec(this.text(value));
+    if (!match) throw this.error(value.token, `Expected an ID number, got "${value.token.text}"`);
+    return Number(match[1]);
+  }
+
+  private error(token: Token, message: string): WhereSyntaxError {
+    return new WhereSyntaxError(message, this.expression, token.start, Math.max(token.end, token.start + 1));
+  }
+}
+
+function localDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isId(value: string): boolean {
+  return /^[0-9a-f]{32}$/i.test(normalizeId(value));
+}
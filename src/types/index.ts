@@ -5,9 +5,10 @@ import type {
   UserObjectResponse,
   SearchResponse,
   QueryDatabaseResponse,
+  QueryDatabaseParameters,
 } from '@notionhq/client/build/src/api-endpoints';
 
-export type OutputFormat = 'table' | 'json' | 'plain' | 'compact';
+export type OutputFormat = 'table' | 'json' | 'plain' | 'compact' | 'markdown' | 'html';
 
 export interface GlobalOptions {
   output?: OutputFormat;
@@ -21,6 +22,18 @@ export interface AppConfig {
   apiKey?: string;
   defaultOutput: OutputFormat;
   defaultDatabase?: string;
+  archived?: ArchivedItem[];
+}
+
+// A page or block archived from the CLI. The API never lists archived
+// children, so these records are what `block list --list-archived` shows.
+export interface ArchivedItem {
+  id: string;
+  object: 'page' | 'block';
+  type: string;
+  parent_id: string | null;
+  title: string;
+  archived_at: string;
 }
 
 export interface CommandContext {
@@ -41,6 +54,11 @@ export type {
 // Property value types for easier handling
 export type PropertyValue = PageObjectResponse['properties'][string];
 
+// Block with its nested children attached (as fetched by fetchBlockTree)
+export type BlockWithChildren = BlockObjectResponse & {
+  children?: BlockWithChildren[];
+};
+
 // Helper type for extracting title from various object types
 export interface TitleExtractable {
   properties?: Record<string, PropertyValue>;
@@ -48,18 +66,12 @@ export interface TitleExtractable {
 }
 
 // Database filter types
-export interface DatabaseFilter {
-  property: string;
-  type: string;
-  value: unknown;
-}
+export type DatabaseFilter = NonNullable<QueryDatabaseParameters['filter']>;
 
 // Sort options
-export interface SortOption {
-  property?: string;
-  timestamp?: 'created_time' | 'last_edited_time';
-  direction: 'ascending' | 'descending';
-}
+export type SortOption =
+  | { property: string; direction: 'ascending' | 'descending' }
+  | { timestamp: 'created_time' | 'last_edited_time'; direction: 'ascending' | 'descending' };
 
 // Page creation input
 export interface PageCreateInput {
@@ -0,0 +1,104 @@
+import type { BlockWriter } from '../src/lib/blocks.js';
+
+// Rich text as the API returns it
+export function rt(content: string, annotations: Record<string, unknown> = {}, href: string | null = null): any {
+  return {
+    type: 'text',
+    text: { content, link: href ? { url: href } : null },
+    annotations: {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: 'default',
+      ...annotations,
+    },
+    plain_text: content,
+    href,
+  };
+}
+
+// A block as fetchBlockTree returns it, with its children inline
+export function block(type: string, data: Record<string, unknown>, children?: any[]): any {
+  return {
+    object: 'block',
+    id: `${type}-id`,
+    type,
+    created_time: '2026-10-01T10:00:00.000Z',
+    [type]: data,
+    has_children: Boolean(children?.length),
+    ...(children ? { children } : {}),
+  };
+}
+
+export interface StoredBlock {
+  id: string;
+  type: string;
+  text: string;
+  children: StoredBlock[];
+}
+
+// An in-memory workspace behind a BlockWriter. Like Notion it rejects
+// requests nested more than two levels deep (columns do not count), tables
+// without rows and empty columns.
+export function fakeBlockWriter(): { writer: BlockWriter; tree: (id: string) => StoredBlock[] } {
+  const blocks = new Map<string, StoredBlock>();
+  const roots = new Map<string, StoredBlock[]>();
+  let next = 0;
+
+  const childrenOf = (id: string): StoredBlock[] => {
+    const list = roots.get(id) ?? blocks.get(id)?.children;
+    if (!list) throw new Error(`Could not find block ${id}`);
+    return list;
+  };
+
+  const store = (input: Record<string, unknown>, level: number): StoredBlock => {
+    const type = input.type as string;
+    const { children, ...data } = (input[type] ?? {}) as { children?: Record<string, unknown>[] } & Record<string, unknown>;
+    if (type === 'table' && !children?.length) throw new Error('Tables need at least one row');
+    if (type === 'column' && !children?.length) throw new Error('Columns need at least one child');
+
+    const childLevel = type === 'column' ? level : level + 1;
+    if (children?.length && childLevel > 2) throw new Error('Nesting exceeds two levels');
+
+    const block: StoredBlock = {
+      id: `block-${++next}`,
+      type,
+      text: blockText(data),
+      children: (children ?? []).map((child) => store(child, childLevel)),
+    };
+    blocks.set(block.id, block);
+    return block;
+  };
+
+  const writer: BlockWriter = {
+    createPage: async (params) => {
+      const id = `page-${++next}`;
+      roots.set(id, ((params.children ?? []) as Record<string, unknown>[]).map((child) => store(child, 1)));
+      return { object: 'page', id } as any;
+    },
+    appendChildren: async (blockId, children, after) => {
+      const list = childrenOf(blockId);
+      const created = (children as Record<string, unknown>[]).map((child) => store(child, 1));
+      const index = after ? list.findIndex((block) => block.id === after) + 1 : list.length;
+      list.splice(index, 0, ...created);
+      return { object: 'list', results: created.map(({ id, type }) => ({ object: 'block', id, type })) } as any;
+    },
+    listChildren: async (blockId) => childrenOf(blockId).map(({ id, type }) => ({ object: 'block', id, type }) as any),
+    deleteBlock: async (blockId) => {
+      for (const list of [...roots.values(), ...[...blocks.values()].map((block) => block.children)]) {
+        const index = list.findIndex((block) => block.id === blockId);
+        if (index >= 0) list.splice(index, 1);
+      }
+      blocks.delete(blockId);
+    },
+  };
+
+  return { writer, tree: childrenOf };
+}
+
+function blockText(data: Record<string, unknown>): string {
+  const richText = (data.rich_text ?? (data.cells as unknown[][] | undefined)?.flat() ?? []) as Array<{ text?: { content: string } }>;
+  return richText.map((item) => item.text?.content ?? '').join(data.cells ? '|' : '');
+}
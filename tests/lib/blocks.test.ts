@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createPageWithChildren, parseDepth, splitDeepChildren } from '../../src/lib/blocks.js';
+import { markdownToBlocks } from '../../src/lib/markdown.js';
+import { fakeBlockWriter, type StoredBlock } from '../fixtures.js';
+
+describe('parseDepth', () => {
+  it('should use the fallback when no depth is given', () => {
+    expect(parseDepth(undefined)).toBe(1);
+    expect(parseDepth(undefined, Infinity)).toBe(Infinity);
+  });
+
+  it('should accept positive integers', () => {
+    expect(parseDepth('3')).toBe(3);
+  });
+
+  it('should reject zero, negative and non-numeric depths', () => {
+    expect(() => parseDepth('0')).toThrow('Invalid depth: 0');
+    expect(() => parseDepth('-1')).toThrow('Invalid depth: -1');
+    expect(() => parseDepth('abc')).toThrow('Invalid depth: abc');
+    expect(() => parseDepth('1.5')).toThrow('Invalid depth: 1.5');
+  });
+});
+
+describe('splitDeepChildren', () => {
+  const paragraph = (content: string) => ({ type: 'paragraph', paragraph: { rich_text: [{ type: 'text', text: { content } }] } });
+  const table = {
+    type: 'table',
+    table: {
+      table_width: 1,
+      children: [{ type: 'table_row', table_row: { cells: [[{ type: 'text', text: { content: 'a' } }]] } }],
+    },
+  };
+  const column = (...children: unknown[]) => ({ type: 'column', column: { children } });
+
+  it('should defer a table inside a toggle and keep its place with a placeholder', () => {
+    const source = markdownToBlocks('<details>\n<summary>More</summary>\n\n| A |\n| - |\n| 1 |\n\n</details>\n');
+    const { blocks, deferred } = splitDeepChildren(source as any);
+
+    expect((blocks[0] as any).toggle.children).toEqual([{ type: 'paragraph', paragraph: { rich_text: [] } }]);
+    expect(deferred).toEqual([{ path: [0], children: [(source[0] as any).toggle.children[0]], placeholder: true }]);
+    expect((deferred[0].children[0] as any).table.children).toHaveLength(2);
+  });
+
+  it('should defer a table in a list item together with the siblings after it', () => {
+    const source = markdownToBlocks('- Item\n\n  Before\n\n  | A |\n  | - |\n  | 1 |\n\n  After\n');
+    const { blocks, deferred } = splitDeepChildren(source as any);
+    const children = (source[0] as any).bulleted_list_item.children;
+
+    expect(children.map((child: any) => child.type)).toEqual(['paragraph', 'table', 'paragraph']);
+    expect((blocks[0] as any).bulleted_list_item.children).toEqual([children[0]]);
+    expect(deferred).toEqual([{ path: [0], children: children.slice(1), placeholder: false }]);
+  });
+
+  it('should send a top-level table with up to 100 rows', () => {
+    const rows = Array.from({ length: 150 }, () => table.table.children[0]);
+    const { blocks, deferred } = splitDeepChildren([{ type: 'table', table: { table_width: 1, children: rows } }] as any);
+
+    expect((blocks[0] as any).table.children).toHaveLength(100);
+    expect(deferred).toEqual([{ path: [0], children: rows.slice(100) }]);
+  });
+
+  it('should defer tables inside columns to a later request', () => {
+    const columnList = {
+      type: 'column_list',
+      column_list: { children: [column(paragraph('intro'), table, paragraph('after')), column(table)] },
+    };
+
+    const { blocks, deferred } = splitDeepChildren([columnList] as any);
+
+    expect((blocks[0] as any).column_list.children).toEqual([
+      column(paragraph('intro')),
+      column({ type: 'paragraph', paragraph: { rich_text: [] } }),
+    ]);
+    expect(deferred).toEqual([
+      { path: [0, 0], children: [table, paragraph('after')], placeholder: false },
+      { path: [0, 1], children: [table], placeholder: true },
+    ]);
+  });
+});
+
+describe('createPageWithChildren', () => {
+  const shape = (blocks: StoredBlock[]): unknown[] =>
+    blocks.map((block) => (block.children.length > 0 ? [block.type, block.text, shape(block.children)] : [block.type, block.text]));
+
+  it('should create a page with a table inside a toggle and a callout', async () => {
+    const fake = fakeBlockWriter();
+    const children = markdownToBlocks([
+      '<details>\n<summary>Data</summary>\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\nAfter\n\n</details>',
+      '> [!NOTE]\n> Intro\n>\n> | C |\n> | - |\n> | 3 |',
+      'End',
+    ].join('\n\n'));
+
+    const page = await createPageWithChildren({ parent: { page_id: 'p' }, properties: {} } as any, children, 100, 0, undefined, undefined, fake.writer);
+
+    expect(shape(fake.tree(page.id))).toEqual([
+      ['toggle', 'Data', [['table', '', [['table_row', 'A|B'], ['table_row', '1|2']]], ['paragraph', 'After']]],
+      ['callout', 'Intro', [['table', '', [['table_row', 'C'], ['table_row', '3']]]]],
+      ['paragraph', 'End'],
+    ]);
+  });
+
+  it('should reject the same content sent in one request', async () => {
+    const fake = fakeBlockWriter();
+    const children = markdownToBlocks('<details>\n<summary>Data</summary>\n\n| A |\n| - |\n| 1 |\n\n</details>');
+    await expect(fake.writer.createPage({ parent: { page_id: 'p' }, properties: {}, children } as any))
+      .rejects.toThrow('Nesting exceeds two levels');
+  });
+});
@@ -0,0 +1,46 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { forgetArchivedItem, getArchivedItems, recordArchivedItem } from '../../src/lib/config.js';
+import type { ArchivedItem } from '../../src/types/index.js';
+
+const item = (id: string, title = 'Spec'): ArchivedItem => ({
+  id,
+  object: 'page',
+  type: 'page',
+  parent_id: 'parent',
+  title,
+  archived_at: '2026-10-19T10:00:00.000Z',
+});
+
+describe('archived items', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'onotion-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty', () => {
+    expect(getArchivedItems(dir)).toEqual([]);
+  });
+
+  it('should record items once per ID', () => {
+    recordArchivedItem(item('11111111-1111-1111-1111-111111111111'), dir);
+    recordArchivedItem(item('11111111111111111111111111111111', 'Spec v2'), dir);
+    recordArchivedItem(item('22222222222222222222222222222222'), dir);
+
+    expect(getArchivedItems(dir).map((archived) => archived.title)).toEqual(['Spec v2', 'Spec']);
+  });
+
+  it('should forget restored items regardless of ID format', () => {
+    recordArchivedItem(item('11111111111111111111111111111111'), dir);
+    forgetArchivedItem('11111111-1111-1111-1111-111111111111', dir);
+
+    expect(getArchivedItems(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { createPageWithChildren } from '../../src/lib/blocks.js';
+import { blocksToRequests, blockToRequest, duplicatePageParams } from '../../src/lib/duplicate.js';
+import { propertyToRequest, richTextToRequest } from '../../src/lib/properties.js';
+import { block, fakeBlockWriter, rt } from '../fixtures.js';
+
+const DEFAULT_ANNOTATIONS = rt('').annotations;
+
+const textRequest = (content: string, link: { url: string } | null = null, annotations = DEFAULT_ANNOTATIONS) => ({
+  type: 'text',
+  text: { content, link },
+  annotations,
+});
+
+const source = {
+  object: 'page',
+  id: '33333333-3333-3333-3333-333333333333',
+  icon: { type: 'emoji', emoji: '📄' },
+  cover: { type: 'file', file: { url: 'https://files.test/cover.png', expiry_time: '2026-10-01' } },
+  properties: {
+    Name: { id: 'title', type: 'title', title: [rt('Spec')] },
+    Status: { id: 's', type: 'status', status: { id: '1', name: 'Done', color: 'green' } },
+    Owner: { id: 'o', type: 'people', people: [{ object: 'user', id: 'u1', name: 'Jane' }] },
+    Score: { id: 'f', type: 'formula', formula: { type: 'number', number: 3 } },
+  },
+} as any;
+
+describe('richTextToRequest', () => {
+  it('should drop plain_text and href but keep annotations and links', () => {
+    const link = { ...rt('docs'), text: { content: 'docs', link: { url: 'https://x.test' } } };
+    expect(richTextToRequest([rt('bold', { bold: true }), link] as any)).toEqual([
+      textRequest('bold', null, { ...DEFAULT_ANNOTATIONS, bold: true }),
+      textRequest('docs', { url: 'https://x.test' }),
+    ]);
+  });
+
+  it('should keep page and user mentions', () => {
+    const mention = (data: Record<string, unknown>) => ({
+      type: 'mention',
+      mention: data,
+      annotations: DEFAULT_ANNOTATIONS,
+      plain_text: '@x',
+      href: null,
+    });
+    expect(richTextToRequest([
+      mention({ type: 'page', page: { id: 'p1' } }),
+      mention({ type: 'user', user: { object: 'user', id: 'u1', name: 'Jane' } }),
+    ] as any)).toEqual([
+      { type: 'mention', mention: { page: { id: 'p1' } }, annotations: DEFAULT_ANNOTATIONS },
+      { type: 'mention', mention: { user: { id: 'u1' } }, annotations: DEFAULT_ANNOTATIONS },
+    ]);
+  });
+});
+
+describe('propertyToRequest', () => {
+  it('should convert writable properties', () => {
+    expect(propertyToRequest(source.properties.Status)).toEqual({ status: { name: 'Done' } });
+    expect(propertyToRequest(source.properties.Owner)).toEqual({ people: [{ id: 'u1' }] });
+  });
+
+  it('should skip computed properties', () => {
+    expect(propertyToRequest(source.properties.Score)).toBeUndefined();
+  });
+});
+
+describe('duplicatePageParams', () => {
+  it('should copy properties into a database parent', () => {
+    const warnings: string[] = [];
+    const params = duplicatePageParams(source, { type: 'database_id', id: 'db' }, undefined, warnings);
+
+    expect(params.parent).toEqual({ type: 'database_id', database_id: 'db' });
+    expect(params.properties).toEqual({
+      Name: { title: [textRequest('Spec')] },
+      Status: { status: { name: 'Done' } },
+      Owner: { people: [{ id: 'u1' }] },
+    });
+    expect(params.icon).toEqual({ type: 'emoji', emoji: '📄' });
+    expect(params.cover).toBeUndefined();
+    expect(warnings).toEqual(['The cover is an uploaded file and was not copied.']);
+  });
+
+  it('should keep only the title under a page and apply the new title', () => {
+    const warnings: string[] = [];
+    const params = duplicatePageParams(source, { type: 'page_id', id: 'parent' }, 'Spec (copy)', warnings);
+
+    expect(params.parent).toEqual({ type: 'page_id', page_id: 'parent' });
+    expect(Object.keys(params.properties)).toEqual(['title']);
+    expect(params.properties.title).toEqual({ title: [{ type: 'text', text: { content: 'Spec (copy)' } }] });
+    expect(warnings).toContain('Parent is a page, so only the title was copied from the page properties.');
+  });
+});
+
+describe('blockToRequest', () => {
+  it('should strip read-only fields and keep nested children', () => {
+    const toggle = block('toggle', { rich_text: [rt('Details')], color: 'default' }, [
+      block('paragraph', { rich_text: [rt('Inside')], color: 'blue' }),
+    ]);
+
+    expect(blockToRequest(toggle)).toEqual({
+      object: 'block',
+      type: 'toggle',
+      toggle: {
+        rich_text: [textRequest('Details')],
+        color: 'default',
+        children: [{
+          object: 'block',
+          type: 'paragraph',
+          paragraph: { rich_text: [textRequest('Inside')], color: 'blue' },
+        }],
+      },
+    });
+  });
+
+  it('should copy tables with their rows', () => {
+    const table = block('table', { table_width: 2, has_column_header: true, has_row_header: false }, [
+      block('table_row', { cells: [[rt('a')], [rt('b')]] }),
+    ]);
+
+    expect(blockToRequest(table)).toEqual({
+      object: 'block',
+      type: 'table',
+      table: {
+        table_width: 2,
+        has_column_header: true,
+        has_row_header: false,
+        children: [{
+          object: 'block',
+          type: 'table_row',
+          table_row: { cells: [[textRequest('a')], [textRequest('b')]] },
+        }],
+      },
+    });
+  });
+
+  it('should keep external media and skip uploaded files', () => {
+    const warnings: string[] = [];
+    const external = block('image', { type: 'external', external: { url: 'https://x.test/a.png' }, caption: [] });
+    const uploaded = block('image', { type: 'file', file: { url: 'https://files.test/a.png' }, caption: [] });
+
+    expect(blocksToRequests([external, uploaded], warnings)).toEqual([{
+      object: 'block',
+      type: 'image',
+      image: { type: 'external', external: { url: 'https://x.test/a.png' }, caption: [] },
+    }]);
+    expect(warnings).toEqual([
+      'Skipped uploaded image image-id: uploaded files cannot be copied through the API.',
+    ]);
+  });
+
+  it('should skip sub-pages silently and warn about databases', () => {
+    const warnings: string[] = [];
+    const requests = blocksToRequests([
+      block('child_page', { title: 'Sub' }),
+      block('child_database', { title: 'Tasks' }),
+    ], warnings);
+
+    expect(requests).toEqual([]);
+    expect(warnings).toEqual(['Skipped database "Tasks": databases are not duplicated.']);
+  });
+
+  it('should turn link previews into bookmarks', () => {
+    expect(blockToRequest(block('link_preview', { url: 'https://github.com/a/b' }))).toEqual({
+      object: 'block',
+      type: 'bookmark',
+      bookmark: { url: 'https://github.com/a/b' },
+    });
+  });
+});
+
+describe('copying nested tables', () => {
+  it('should copy a page with a table inside a toggle', async () => {
+    const blocks = [
+      block('toggle', { rich_text: [rt('Details')], color: 'default' }, [
+        block('table', { table_width: 2, has_column_header: true, has_row_header: false }, [
+          block('table_row', { cells: [[rt('a')], [rt('b')]] }),
+          block('table_row', { cells: [[rt('1')], [rt('2')]] }),
+        ]),
+        block('paragraph', { rich_text: [rt('Below')], color: 'default' }),
+      ]),
+    ];
+    const fake = fakeBlockWriter();
+
+    const params = duplicatePageParams(source, { type: 'page_id', id: 'parent' }, 'Copy');
+    const page = await createPageWithChildren(params, blocksToRequests(blocks), 100, 0, undefined, undefined, fake.writer);
+
+    const [toggle] = fake.tree(page.id);
+    expect(toggle.type).toBe('toggle');
+    expect(toggle.children.map((child) => child.type)).toEqual(['table', 'paragraph']);
+    expect(toggle.children[0].children.map((row) => row.text)).toEqual(['a|b', '1|2']);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { planPageEdit, planPageReplace, renderEditableDocument } from '../../src/lib/edit.js';
+import { block, rt } from '../fixtures.js';
+
+const ID = (n: number) => `0000000${n}-0000-0000-0000-000000000000`;
+
+const blocks = [
+  block('heading_1', { rich_text: [rt('Title')], is_toggleable: false }),
+  block('paragraph', { rich_text: [rt('First paragraph')] }),
+  block('bulleted_list_item', { rich_text: [rt('one')] }),
+  block('bulleted_list_item', { rich_text: [rt('two')] }),
+  block('child_page', { title: 'Sub page' }),
+  block('paragraph', { rich_text: [rt('Last')] }),
+].map((item, index) => ({ ...item, id: ID(index + 1) }));
+
+describe('renderEditableDocument', () => {
+  it('should render editable blocks as Markdown and others as placeholders', () => {
+    expect(renderEditableDocument(blocks)).toBe(
+      `# Title\n\nFirst paragraph\n\n- one\n\n- two\n\n<!-- notion:child_page ${ID(5)} Sub page -->\n\nLast\n`
+    );
+  });
+});
+
+describe('planPageEdit', () => {
+  const original = renderEditableDocument(blocks);
+
+  it('should produce an empty plan when nothing changed', () => {
+    const plan = planPageEdit(blocks, original);
+    expect(plan).toEqual({ updates: [], inserts: [], deletes: [], warnings: [] });
+  });
+
+  it('should update a changed block in place', () => {
+    const plan = planPageEdit(blocks, original.replace('First paragraph', 'First **edited** paragraph'));
+    expect(plan.inserts).toEqual([]);
+    expect(plan.deletes).toEqual([]);
+    expect(plan.updates).toHaveLength(1);
+    expect(plan.updates[0].id).toBe(ID(2));
+    expect(plan.updates[0].block.type).toBe('paragraph');
+  });
+
+  it('should insert new blocks after the preceding block', () => {
+    const plan = planPageEdit(blocks, original.replace('- two\n', '- two\n- three\n\nNew paragraph\n'));
+    expect(plan.updates).toEqual([]);
+    expect(plan.deletes).toEqual([]);
+    expect(plan.inserts).toHaveLength(1);
+    expect(plan.inserts[0].after).toBe(ID(4));
+    expect(plan.inserts[0].blocks.map((b) => b.type)).toEqual(['bulleted_list_item', 'paragraph']);
+  });
+
+  it('should delete removed blocks', () => {
+    const plan = planPageEdit(blocks, original.replace('- one\n\n', ''));
+    expect(plan.deletes).toEqual([ID(3)]);
+    expect(plan.updates).toEqual([]);
+    expect(plan.inserts).toEqual([]);
+  });
+
+  it('should replace a block whose type changed', () => {
+    const plan = planPageEdit(blocks, original.replace('First paragraph', '> First paragraph'));
+    expect(plan.updates).toEqual([]);
+    expect(plan.inserts).toEqual([{ after: ID(1), blocks: [expect.objectContaining({ type: 'quote' })] }]);
+    expect(plan.deletes).toEqual([ID(2)]);
+  });
+
+  it('should recreate the first block when inserting above it', () => {
+    const plan = planPageEdit(blocks, `Intro\n\n${original}`);
+    expect(plan.inserts).toHaveLength(1);
+    expect(plan.inserts[0].after).toBe(ID(1));
+    expect(plan.inserts[0].blocks.map((b) => b.type)).toEqual(['paragraph', 'heading_1']);
+    expect(plan.deletes).toEqual([ID(1)]);
+  });
+
+  it('should not delete sub-pages', () => {
+    const plan = planPageEdit(blocks, original.replace(/<!-- notion:child_page .*-->\n\n/, ''));
+    expect(plan.deletes).toEqual([]);
+    expect(plan.warnings[0]).toContain('Not deleting "Sub page"');
+  });
+
+  it('should reject moved placeholders', () => {
+    const placeholder = `<!-- notion:child_page ${ID(5)} Sub page -->`;
+    const moved = `${placeholder}\n\n${original.replace(`${placeholder}\n\n`, '')}`;
+    expect(() => planPageEdit(blocks, moved)).toThrow(/was moved/);
+  });
+});
+
+describe('planPageReplace', () => {
+  const existing = [
+    { id: 'a', type: 'paragraph' },
+    { id: 'b', type: 'child_page' },
+    { id: 'c', type: 'child_database' },
+    { id: 'd', type: 'heading_1' },
+  ] as any[];
+  const children = [{ type: 'paragraph', paragraph: { rich_text: [] } }] as any[];
+
+  it('should archive every block by default', () => {
+    expect(planPageReplace(existing, children)).toEqual({ kept: [], removed: existing });
+  });
+
+  it('should keep child pages and databases when asked', () => {
+    const plan = planPageReplace(existing, children, { keepChildrenPages: true });
+    expect(plan.kept.map((block) => block.id)).toEqual(['b', 'c']);
+    expect(plan.removed.map((block) => block.id)).toEqual(['a', 'd']);
+  });
+
+  it('should refuse empty content unless allowed', () => {
+    expect(() => planPageReplace(existing, [])).toThrow(/--allow-empty/);
+    expect(planPageReplace(existing, [], { allowEmpty: true }).removed).toHaveLength(4);
+  });
+});
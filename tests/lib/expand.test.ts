@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { formatExpandedValue } from '../../src/lib/expand.js';
+
+describe('formatExpandedValue', () => {
+  it('should list related pages with their titles', () => {
+    expect(formatExpandedValue({
+      name: 'Blocked by',
+      type: 'relation',
+      value: [{ id: 'p1', title: 'Login page' }, { id: 'p2', title: null }],
+    })).toEqual(['Login page (p1)', 'p2']);
+  });
+
+  it('should list people with their emails', () => {
+    expect(formatExpandedValue({
+      name: 'Owner',
+      type: 'people',
+      value: [{ id: 'u1', name: 'Jane Doe', email: 'jane@acme.test' }, { id: 'u2', name: null, email: null }],
+    })).toEqual(['Jane Doe <jane@acme.test>', 'u2']);
+  });
+
+  it('should list file URLs', () => {
+    expect(formatExpandedValue({
+      name: 'Files',
+      type: 'files',
+      value: [{ name: 'spec.pdf', url: 'https://x.test/spec.pdf' }, { name: 'https://x.test/a', url: 'https://x.test/a' }],
+    })).toEqual(['spec.pdf: https://x.test/spec.pdf', 'https://x.test/a']);
+  });
+
+  it('should list rollup elements', () => {
+    expect(formatExpandedValue({ name: 'Tasks', type: 'rollup', value: ['Design', 'Build'] })).toEqual(['Design', 'Build']);
+  });
+
+  it('should render single values', () => {
+    expect(formatExpandedValue({ name: 'Notes', type: 'rich_text', value: 'Long text' })).toEqual(['Long text']);
+    expect(formatExpandedValue({ name: 'Due', type: 'date', value: { start: '2026-11-01', end: '2026-11-05' } }))
+      .toEqual(['2026-11-01 → 2026-11-05']);
+    expect(formatExpandedValue({ name: 'Score', type: 'number', value: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { pageFrontMatter, rewriteNotionLinks, slugify } from '../../src/lib/export.js';
+import { buildPageFromMarkdown } from '../../src/lib/import.js';
+import { parseFrontMatter, serializeFrontMatter } from '../../src/lib/frontmatter.js';
+
+const ROOT_ID = '11111111111111111111111111111111';
+const CHILD_ID = '22222222222222222222222222222222';
+
+const page = {
+  object: 'page',
+  id: '33333333-3333-3333-3333-333333333333',
+  url: 'https://www.notion.so/Spec-33333333333333333333333333333333',
+  last_edited_time: '2026-10-01T10:00:00.000Z',
+  icon: { type: 'emoji', emoji: '📄' },
+  cover: null,
+  properties: {
+    Name: { id: 'title', type: 'title', title: [{ plain_text: 'Spec' }] },
+    Status: { id: 's', type: 'status', status: { id: '1', name: 'Done', color: 'green' } },
+    Tags: { id: 't', type: 'multi_select', multi_select: [{ id: 'a', name: 'api', color: 'red' }] },
+    Due: { id: 'd', type: 'date', date: { start: '2026-10-01', end: '2026-10-05', time_zone: null } },
+    Points: { id: 'p', type: 'number', number: 3 },
+    Done: { id: 'c', type: 'checkbox', checkbox: true },
+  },
+} as any;
+
+describe('slugify', () => {
+  it('should produce lowercase dash-separated names', () => {
+    expect(slugify('Q3 Roadmap: Draft / v2')).toBe('q3-roadmap-draft-v2');
+  });
+
+  it('should keep non-latin letters', () => {
+    expect(slugify('Café Notes')).toBe('café-notes');
+  });
+
+  it('should fall back to untitled', () => {
+    expect(slugify('???')).toBe('untitled');
+  });
+});
+
+describe('rewriteNotionLinks', () => {
+  const paths = new Map([
+    [ROOT_ID, 'home.md'],
+    [CHILD_ID, 'home/guide.md'],
+  ]);
+
+  it('should rewrite links to exported pages relative to the current file', () => {
+    const markdown = `[Guide](https://www.notion.so/${CHILD_ID})\n\nSee [home](https://www.notion.so/Home-${ROOT_ID}?pvs=4).`;
+    expect(rewriteNotionLinks(markdown, 'home.md', paths)).toBe('[Guide](home/guide.md)\n\nSee [home](home.md).');
+    expect(rewriteNotionLinks(markdown, 'home/guide.md', paths)).toBe('[Guide](guide.md)\n\nSee [home](../home.md).');
+  });
+
+  it('should accept dashed IDs', () => {
+    const markdown = '[Guide](https://www.notion.so/22222222-2222-2222-2222-222222222222)';
+    expect(rewriteNotionLinks(markdown, 'home.md', paths)).toBe('[Guide](home/guide.md)');
+  });
+
+  it('should link to database folders', () => {
+    const dbPaths = new Map([[CHILD_ID, 'home/tasks/']]);
+    expect(rewriteNotionLinks(`[Tasks](https://www.notion.so/${CHILD_ID})`, 'home.md', dbPaths))
+      .toBe('[Tasks](home/tasks/)');
+  });
+
+  it('should leave links to pages outside the export alone', () => {
+    const markdown = '[Other](https://www.notion.so/44444444444444444444444444444444)';
+    expect(rewriteNotionLinks(markdown, 'home.md', paths)).toBe(markdown);
+  });
+});
+
+describe('pageFrontMatter', () => {
+  it('should emit the title, Notion metadata and property values', () => {
+    expect(pageFrontMatter(page, 'Spec')).toEqual({
+      title: 'Spec',
+      notion_id: page.id,
+      notion_url: page.url,
+      last_edited_time: '2026-10-01T10:00:00.000Z',
+      icon: '📄',
+      Status: 'Done',
+      Tags: ['api'],
+      Due: { start: '2026-10-01', end: '2026-10-05' },
+      Points: 3,
+      Done: true,
+    });
+  });
+
+  it('should round-trip through page import', () => {
+    const schema = {
+      Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+      Status: {
+        id: 's',
+        name: 'Status',
+        type: 'status',
+        status: { options: [{ id: '1', name: 'Done', color: 'green' }], groups: [] },
+      },
+      Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+      Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+      Points: { id: 'p', name: 'Points', type: 'number', number: { format: 'number' } },
+      Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+    } as any;
+
+    const source = serializeFrontMatter(pageFrontMatter(page, 'Spec'), 'Body text\n');
+    expect(parseFrontMatter(source).body.trim()).toBe('Body text');
+
+    const result = buildPageFromMarkdown(source, { parentId: 'db', schema });
+    expect(result.warnings).toEqual([]);
+    expect(result.params.icon).toEqual({ type: 'emoji', emoji: '📄' });
+    expect(result.params.properties).toMatchObject({
+      Status: { status: { name: 'Done' } },
+      Tags: { multi_select: [{ name: 'api' }] },
+      Due: { date: { start: '2026-10-01', end: '2026-10-05' } },
+      Points: { number: 3 },
+      Done: { checkbox: true },
+    });
+  });
+});
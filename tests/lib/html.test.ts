@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToHtml, richTextToHtml, renderHtmlDocument } from '../../src/lib/html.js';
+import { block, rt } from '../fixtures.js';
+
+describe('blocksToHtml', () => {
+  it('should render headings one level below the page title', () => {
+    const html = blocksToHtml([
+      block('heading_1', { rich_text: [rt('Intro')], is_toggleable: false, color: 'default' }),
+      block('paragraph', { rich_text: [rt('Text')], color: 'default' }),
+    ]);
+    expect(html).toBe('<h2>Intro</h2>\n<p>Text</p>\n');
+  });
+
+  it('should group list items and nest children', () => {
+    const html = blocksToHtml([
+      block('numbered_list_item', { rich_text: [rt('first')], color: 'default' }, [
+        block('bulleted_list_item', { rich_text: [rt('child')], color: 'default' }),
+      ]),
+      block('numbered_list_item', { rich_text: [rt('second')], color: 'default' }),
+      block('to_do', { rich_text: [rt('task')], checked: true, color: 'default' }),
+    ]);
+    expect(html).toBe(
+      '<ol>\n<li>first\n<ul>\n<li>child</li>\n</ul>\n</li>\n<li>second</li>\n</ol>\n'
+      + '<ul class="to-do-list">\n<li><input type="checkbox" disabled checked> task</li>\n</ul>\n'
+    );
+  });
+
+  it('should render code with a language class and escape its content', () => {
+    const html = blocksToHtml([
+      block('code', { rich_text: [rt('a < b && c')], language: 'c++', caption: [] }),
+    ]);
+    expect(html).toBe('<pre><code class="language-cpp">a &lt; b &amp;&amp; c</code></pre>\n');
+  });
+
+  it('should render callouts as aside and toggles as details', () => {
+    const html = blocksToHtml([
+      block('callout', { rich_text: [rt('Heads up')], icon: { type: 'emoji', emoji: '⚠️' }, color: 'yellow_background' }),
+      block('toggle', { rich_text: [rt('More')], color: 'default' }, [
+        block('paragraph', { rich_text: [rt('Hidden')], color: 'default' }),
+      ]),
+    ]);
+    expect(html).toContain('<aside class="callout yellow_background">\n<span class="callout-icon">⚠️</span>');
+    expect(html).toContain('<p>Heads up</p>');
+    expect(html).toContain('<details>\n<summary>More</summary>\n<p>Hidden</p>\n</details>');
+  });
+
+  it('should render tables with header rows', () => {
+    const html = blocksToHtml([
+      block('table', { table_width: 2, has_column_header: true, has_row_header: false }, [
+        block('table_row', { cells: [[rt('A')], [rt('B')]] }),
+        block('table_row', { cells: [[rt('1')], []] }),
+      ]),
+    ]);
+    expect(html).toBe(
+      '<table>\n<thead>\n<tr><th>A</th><th>B</th></tr>\n</thead>\n<tbody>\n<tr><td>1</td><td></td></tr>\n</tbody>\n</table>\n'
+    );
+  });
+
+  it('should render images and bookmarks as figures', () => {
+    const html = blocksToHtml([
+      block('image', { type: 'external', external: { url: 'https://x.test/a.png' }, caption: [rt('Diagram')] }),
+      block('bookmark', { url: 'https://example.com', caption: [] }),
+    ]);
+    expect(html).toBe(
+      '<figure>\n<img src="https://x.test/a.png" alt="Diagram">\n<figcaption>Diagram</figcaption>\n</figure>\n'
+      + '<figure class="bookmark">\n<a href="https://example.com">https://example.com</a>\n</figure>\n'
+    );
+  });
+});
+
+describe('richTextToHtml', () => {
+  it('should apply annotations, colors and links', () => {
+    const html = richTextToHtml([
+      rt('bold', { bold: true }),
+      rt(' and '),
+      rt('code', { code: true }),
+      rt(' '),
+      rt('red', { color: 'red' }),
+      rt(' '),
+      rt('link', {}, 'https://example.com?a=1&b=2'),
+    ]);
+    expect(html).toBe(
+      '<strong>bold</strong> and <code>code</code> <span class="red">red</span> <a href="https://example.com?a=1&amp;b=2">link</a>'
+    );
+  });
+
+  it('should escape markup and drop unsafe links', () => {
+    expect(richTextToHtml([rt('<script>', {}, 'javascript:alert(1)')])).toBe('<a href="#">&lt;script&gt;</a>');
+  });
+});
+
+describe('renderHtmlDocument', () => {
+  it('should wrap content in a standalone document', () => {
+    const html = renderHtmlDocument('A & B', '<p>Hi</p>\n');
+    expect(html).toContain('<title>A &amp; B</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain('<h1>A &amp; B</h1>\n<p>Hi</p>\n</article>');
+  });
+});
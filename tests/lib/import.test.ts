@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { buildPageFromMarkdown, findPeopleReferences } from '../../src/lib/import.js';
+import { matchPeople } from '../../src/lib/setters.js';
+import { parseFrontMatter, extractTitleHeading } from '../../src/lib/frontmatter.js';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Status: {
+    id: 's',
+    name: 'Status',
+    type: 'status',
+    status: { options: [{ id: '1', name: 'Draft', color: 'gray' }, { id: '2', name: 'Done', color: 'green' }], groups: [] },
+  },
+  Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+  Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+  Points: { id: 'p', name: 'Points', type: 'number', number: { format: 'number' } },
+} as any;
+
+describe('parseFrontMatter', () => {
+  it('should split YAML front matter from the body', () => {
+    const { data, body } = parseFrontMatter('---\ntitle: Hello\ntags: [a, b]\n---\n# Body\n');
+    expect(data).toEqual({ title: 'Hello', tags: ['a', 'b'] });
+    expect(body).toBe('# Body\n');
+  });
+
+  it('should return the whole text when there is no front matter', () => {
+    const { data, body } = parseFrontMatter('# Just markdown');
+    expect(data).toEqual({});
+    expect(body).toBe('# Just markdown');
+  });
+
+  it('should reject non-mapping front matter', () => {
+    expect(() => parseFrontMatter('---\n- a\n- b\n---\n')).toThrow('YAML mapping');
+  });
+});
+
+describe('extractTitleHeading', () => {
+  it('should take and remove a leading h1', () => {
+    expect(extractTitleHeading('\n# Title\n\nText')).toEqual({ title: 'Title', body: 'Text' });
+  });
+
+  it('should ignore # lines inside code blocks', () => {
+    const result = extractTitleHeading('```sh\n# comment\n```\n\n# Real');
+    expect(result.title).toBe('Real');
+  });
+});
+
+describe('buildPageFromMarkdown', () => {
+  it('should use the first heading as the title of a child page', () => {
+    const result = buildPageFromMarkdown('# Release notes\n\nShipped it.', { parentId: 'parent' });
+    expect(result.title).toBe('Release notes');
+    expect(result.params.parent).toEqual({ type: 'page_id', page_id: 'parent' });
+    expect((result.params.properties.title as any).title[0].text.content).toBe('Release notes');
+    expect(result.children.map(b => b.type)).toEqual(['paragraph']);
+  });
+
+  it('should prefer the front matter title and keep the heading', () => {
+    const result = buildPageFromMarkdown('---\ntitle: From YAML\n---\n# Heading\n', { parentId: 'parent' });
+    expect(result.title).toBe('From YAML');
+    expect(result.children.map(b => b.type)).toEqual(['heading_1']);
+  });
+
+  it('should fall back to the file name', () => {
+    const result = buildPageFromMarkdown('No heading here', { parentId: 'p', fallbackTitle: 'notes' });
+    expect(result.title).toBe('notes');
+  });
+
+  it('should map front matter onto database properties', () => {
+    const source = '---\nstatus: done\nTags: api, cli\nDue: 2026-11-01\nPoints: 3\nicon: 🚀\ncover: https://example.com/c.png\n---\n# Spec\n';
+    const result = buildPageFromMarkdown(source, { parentId: 'db', schema });
+    const props = result.params.properties as any;
+
+    expect(result.params.parent).toEqual({ type: 'database_id', database_id: 'db' });
+    expect(props.Name.title[0].text.content).toBe('Spec');
+    expect(props.Status).toEqual({ status: { name: 'Done' } });
+    expect(props.Tags).toEqual({ multi_select: [{ name: 'api' }, { name: 'cli' }] });
+    expect(props.Due).toEqual({ date: { start: '2026-11-01' } });
+    expect(props.Points).toEqual({ number: 3 });
+    expect(result.params.icon).toEqual({ type: 'emoji', emoji: '🚀' });
+    expect(result.params.cover).toEqual({ type: 'external', external: { url: 'https://example.com/c.png' } });
+  });
+
+  it('should warn about unknown properties', () => {
+    const result = buildPageFromMarkdown('---\nOwner: bob\n---\nText', { parentId: 'db', schema });
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('Owner');
+  });
+
+  it('should reject unknown status options', () => {
+    expect(() => buildPageFromMarkdown('---\nStatus: Blocked\n---\n', { parentId: 'db', schema }))
+      .toThrow('Unknown status "Blocked"');
+  });
+});
+
+describe('people in front matter', () => {
+  const peopleSchema = {
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  } as any;
+
+  it('should resolve people exported as emails', () => {
+    const userId = '44444444444444444444444444444444';
+    const users = [{ object: 'user', id: userId, type: 'person', name: 'Jane Doe', person: { email: 'jane@acme.test' } }] as any;
+    const source = '---\nOwner:\n  - jane@acme.test\n---\n';
+
+    const references = findPeopleReferences(parseFrontMatter(source).data, peopleSchema);
+    expect(references).toEqual(['jane@acme.test']);
+
+    const result = buildPageFromMarkdown(source, { parentId: 'db', schema: peopleSchema, users: matchPeople(references, users) });
+    expect(result.params.properties.Owner).toEqual({ people: [{ id: userId }] });
+  });
+
+  it('should warn about people it cannot resolve', () => {
+    const result = buildPageFromMarkdown('---\nOwner: [nobody@acme.test]\n---\n', { parentId: 'db', schema: peopleSchema });
+    expect(result.params.properties.Owner).toEqual({ people: [] });
+    expect(result.warnings).toEqual(['Ignoring "nobody@acme.test" in "Owner": no user matches.']);
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { markdownToBlocks, inlineTokensToRichText } from '../../src/lib/markdown.js';
+import {
+  markdownToBlocks,
+  inlineTokensToRichText,
+  blocksToMarkdown,
+  richTextToMarkdown,
+  findMentionReferences,
+} from '../../src/lib/markdown.js';
 import { marked } from 'marked';
+import { block, rt } from '../fixtures.js';
 
 function getBlock(blocks: any[], index: number) {
   return blocks[index];
@@ -73,6 +80,39 @@ describe('markdownToBlocks', () => {
     });
   });
 
+  describe('nested lists', () => {
+    it('should nest indented bullets as children', () => {
+      const blocks = markdownToBlocks('- parent\n  - child\n    - grandchild\n- sibling');
+      expect(blocks).toHaveLength(2);
+      const parent = blocks[0] as any;
+      expect(plainText(getRichText(parent))).toBe('parent');
+      const children = parent.bulleted_list_item.children;
+      expect(children).toHaveLength(1);
+      expect(plainText(getRichText(children[0]))).toBe('child');
+      expect(children[0].bulleted_list_item.children[0].type).toBe('bulleted_list_item');
+      expect(plainText(getRichText(blocks[1]))).toBe('sibling');
+    });
+
+    it('should nest numbered sub-steps and tasks', () => {
+      const blocks = markdownToBlocks('1. step\n   1. sub-step\n   - [x] done');
+      const children = (blocks[0] as any).numbered_list_item.children;
+      expect(children.map((c: any) => c.type)).toEqual(['numbered_list_item', 'to_do']);
+      expect(children[1].to_do.checked).toBe(true);
+    });
+
+    it('should nest code blocks and paragraphs under list items', () => {
+      const blocks = markdownToBlocks('- run this:\n\n  ```sh\n  make\n  ```\n\n  then check output');
+      const item = blocks[0] as any;
+      expect(plainText(getRichText(item))).toBe('run this:');
+      expect(item.bulleted_list_item.children.map((c: any) => c.type)).toEqual(['code', 'paragraph']);
+    });
+
+    it('should omit children for flat items', () => {
+      const blocks = markdownToBlocks('- flat');
+      expect((blocks[0] as any).bulleted_list_item.children).toBeUndefined();
+    });
+  });
+
   describe('numbered lists', () => {
     it('should parse ordered list items', () => {
       const blocks = markdownToBlocks('1. first\n2. second\n3. third');
@@ -102,6 +142,31 @@ describe('markdownToBlocks', () => {
     });
   });
 
+  describe('tables', () => {
+    it('should convert GFM tables into table blocks with rows', () => {
+      const blocks = markdownToBlocks('| Name | Status |\n| --- | --- |\n| API | **Done** |\n| CLI | WIP |');
+      expect(blocks).toHaveLength(1);
+      const table = (blocks[0] as any).table;
+      expect(blocks[0].type).toBe('table');
+      expect(table.table_width).toBe(2);
+      expect(table.has_column_header).toBe(true);
+      expect(table.children).toHaveLength(3);
+      expect(table.children[0].type).toBe('table_row');
+      expect(plainText(table.children[0].table_row.cells[0])).toBe('Name');
+      const status = table.children[1].table_row.cells[1];
+      expect(status[0].text.content).toBe('Done');
+      expect(status[0].annotations?.bold).toBe(true);
+    });
+
+    it('should drop an empty header row', () => {
+      const blocks = markdownToBlocks('|   |   |\n| --- | --- |\n| a | b |');
+      const table = (blocks[0] as any).table;
+      expect(table.has_column_header).toBe(false);
+      expect(table.children).toHaveLength(1);
+      expect(plainText(table.children[0].table_row.cells[1])).toBe('b');
+    });
+  });
+
   describe('code blocks', () => {
     it('should parse fenced code block', () => {
       const blocks = markdownToBlocks('```\nhello world\n```');
@@ -137,6 +202,60 @@ describe('markdownToBlocks', () => {
     });
   });
 
+  describe('admonitions', () => {
+    it('should turn GitHub admonitions into callouts', () => {
+      const blocks = markdownToBlocks('> [!WARNING]\n> Back up **first**');
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].type).toBe('callout');
+      const callout = (blocks[0] as any).callout;
+      expect(callout.icon).toEqual({ type: 'emoji', emoji: '⚠️' });
+      expect(callout.color).toBe('yellow_background');
+      expect(plainText(callout.rich_text)).toBe('Back up first');
+    });
+
+    it('should nest further admonition content as children', () => {
+      const blocks = markdownToBlocks('> [!TIP]\n> Try this:\n>\n> - one\n> - two');
+      const callout = (blocks[0] as any).callout;
+      expect(plainText(callout.rich_text)).toBe('Try this:');
+      expect(callout.children.map((c: any) => c.type)).toEqual(['bulleted_list_item', 'bulleted_list_item']);
+    });
+
+    it('should keep unknown markers as quotes', () => {
+      const blocks = markdownToBlocks('> [!FOO]\n> text');
+      expect(blocks[0].type).toBe('quote');
+    });
+  });
+
+  describe('details', () => {
+    it('should turn details/summary into a toggle with children', () => {
+      const md = '<details>\n<summary>More **info**</summary>\n\nHidden text\n\n- item\n\n</details>';
+      const blocks = markdownToBlocks(md);
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].type).toBe('toggle');
+      const toggle = (blocks[0] as any).toggle;
+      expect(plainText(toggle.rich_text)).toBe('More info');
+      expect(toggle.children.map((c: any) => c.type)).toEqual(['paragraph', 'bulleted_list_item']);
+    });
+
+    it('should support nested details', () => {
+      const md = '<details><summary>Outer</summary>\n\n<details><summary>Inner</summary>\n\ntext\n\n</details>\n\n</details>\n\nAfter';
+      const blocks = markdownToBlocks(md);
+      expect(blocks.map(b => b.type)).toEqual(['toggle', 'paragraph']);
+      const inner = (blocks[0] as any).toggle.children[0];
+      expect(inner.type).toBe('toggle');
+      expect(plainText(inner.toggle.rich_text)).toBe('Inner');
+    });
+
+    it('should create toggleable headings from heading summaries', () => {
+      const blocks = markdownToBlocks('<details>\n<summary>## Setup</summary>\n\nSteps\n\n</details>');
+      expect(blocks[0].type).toBe('heading_2');
+      const heading = (blocks[0] as any).heading_2;
+      expect(heading.is_toggleable).toBe(true);
+      expect(plainText(heading.rich_text)).toBe('Setup');
+      expect(heading.children).toHaveLength(1);
+    });
+  });
+
   describe('dividers', () => {
     it('should parse horizontal rule', () => {
       const blocks = markdownToBlocks('---');
@@ -202,6 +321,174 @@ describe('markdownToBlocks', () => {
     });
   });
 
+  describe('media', () => {
+    it('should turn a standalone image into an external image block', () => {
+      const blocks = markdownToBlocks('![Login screen](https://example.com/login.png)');
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].type).toBe('image');
+      const image = (blocks[0] as any).image;
+      expect(image.external.url).toBe('https://example.com/login.png');
+      expect(plainText(image.caption)).toBe('Login screen');
+    });
+
+    it('should keep inline images as links inside text', () => {
+      const rt = getRichText(markdownToBlocks('See ![diagram](https://example.com/d.png) above')[0]);
+      const link = rt.find((r: any) => r.text.link);
+      expect(link.text.content).toBe('diagram');
+      expect(link.text.link.url).toBe('https://example.com/d.png');
+    });
+
+    it('should not create image blocks for relative paths', () => {
+      const blocks = markdownToBlocks('![local](./img/shot.png)');
+      expect(blocks[0].type).toBe('paragraph');
+    });
+
+    it('should turn a bare URL line into a bookmark', () => {
+      const blocks = markdownToBlocks('https://example.com/docs');
+      expect(blocks[0].type).toBe('bookmark');
+      expect((blocks[0] as any).bookmark.url).toBe('https://example.com/docs');
+    });
+
+    it('should keep labelled links as text', () => {
+      const blocks = markdownToBlocks('[Docs](https://example.com/docs)');
+      expect(blocks[0].type).toBe('paragraph');
+    });
+
+    it('should recognise video and embed providers', () => {
+      expect(markdownToBlocks('https://www.youtube.com/watch?v=abc')[0].type).toBe('video');
+      expect(markdownToBlocks('https://youtu.be/abc')[0].type).toBe('video');
+      expect(markdownToBlocks('https://www.loom.com/share/123')[0].type).toBe('embed');
+      expect(markdownToBlocks('https://www.figma.com/file/abc/Design')[0].type).toBe('embed');
+      expect(markdownToBlocks('<https://gist.github.com/user/123>')[0].type).toBe('embed');
+    });
+  });
+
+  describe('math, underline and color', () => {
+    it('should convert inline $...$ into equation rich text', () => {
+      const rt = getRichText(markdownToBlocks('Energy is $E = mc^2$ here')[0]);
+      expect(rt).toHaveLength(3);
+      expect(rt[1].type).toBe('equation');
+      expect(rt[1].equation.expression).toBe('E = mc^2');
+    });
+
+    it('should leave currency amounts alone', () => {
+      const rt = getRichText(markdownToBlocks('costs $5 or $10')[0]);
+      expect(rt.every((r: any) => r.type === 'text')).toBe(true);
+      expect(plainText(rt)).toBe('costs $5 or $10');
+    });
+
+    it('should convert $$ blocks into equation blocks', () => {
+      const blocks = markdownToBlocks('$$\n\\int_0^1 x\\,dx\n$$');
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].type).toBe('equation');
+      expect((blocks[0] as any).equation.expression).toBe('\\int_0^1 x\\,dx');
+    });
+
+    it('should map <u> and ++text++ to underline', () => {
+      for (const md of ['<u>under</u>', '++under++']) {
+        const rt = getRichText(markdownToBlocks(md)[0]);
+        expect(rt).toHaveLength(1);
+        expect(rt[0].text.content).toBe('under');
+        expect(rt[0].annotations?.underline).toBe(true);
+      }
+    });
+
+    it('should map color syntax to annotation colors', () => {
+      const rt = getRichText(markdownToBlocks('{red}alert{/red} and <span color="yellow_background">**note**</span>')[0]);
+      expect(rt[0].text.content).toBe('alert');
+      expect(rt[0].annotations?.color).toBe('red');
+      const note = rt.find((r: any) => r.text.content === 'note');
+      expect(note.annotations?.color).toBe('yellow_background');
+      expect(note.annotations?.bold).toBe(true);
+    });
+
+    it('should ignore unknown colors', () => {
+      const rt = getRichText(markdownToBlocks('{teal}x{/teal}')[0]);
+      expect(rt.every((r: any) => !r.annotations?.color)).toBe(true);
+    });
+  });
+
+  describe('mentions', () => {
+    const PAGE_ID = '0123456789abcdef0123456789abcdef';
+
+    it('should turn notion.so page links into page mentions', () => {
+      const blocks = markdownToBlocks(`See [the spec](https://www.notion.so/acme/Spec-${PAGE_ID}?pvs=4).`);
+      const rt = getRichText(blocks[0]);
+      expect(rt[1]).toEqual({ type: 'mention', mention: { page: { id: PAGE_ID } } });
+    });
+
+    it('should keep a bare notion.so URL as a mention instead of a bookmark', () => {
+      const blocks = markdownToBlocks(`https://www.notion.so/${PAGE_ID}`);
+      expect(blocks[0].type).toBe('paragraph');
+      expect(getRichText(blocks[0])[0]).toEqual({ type: 'mention', mention: { page: { id: PAGE_ID } } });
+    });
+
+    it('should turn database view links into database mentions', () => {
+      const blocks = markdownToBlocks(`[Tasks](https://www.notion.so/${PAGE_ID}?v=abc)`);
+      expect(getRichText(blocks[0])[0]).toEqual({ type: 'mention', mention: { database: { id: PAGE_ID } } });
+    });
+
+    it('should resolve wikilinks and users through the lookup', () => {
+      const blocks = markdownToBlocks('Ask @jane about [[Q3 Roadmap]] by @2026-10-19', {
+        pages: new Map([['q3 roadmap', PAGE_ID]]),
+        users: new Map([['jane', 'user-1']]),
+      });
+      const rt = getRichText(blocks[0]);
+      expect(rt).toEqual([
+        { type: 'text', text: { content: 'Ask ' } },
+        { type: 'mention', mention: { user: { id: 'user-1' } } },
+        { type: 'text', text: { content: ' about ' } },
+        { type: 'mention', mention: { page: { id: PAGE_ID } } },
+        { type: 'text', text: { content: ' by ' } },
+        { type: 'mention', mention: { date: { start: '2026-10-19' } } },
+      ]);
+    });
+
+    it('should leave unresolved references as text', () => {
+      const blocks = markdownToBlocks('Ping @[Jane Doe] on [[Missing]]');
+      expect(plainText(getRichText(blocks[0]))).toBe('Ping @[Jane Doe] on [[Missing]]');
+    });
+
+    it('should not treat email addresses or code as mentions', () => {
+      const { users } = findMentionReferences('Mail bob@example.com or run `npm i @scope/pkg`');
+      expect(users).toEqual([]);
+    });
+
+    it('should collect references for lookup', () => {
+      const refs = findMentionReferences('- [[Spec]] for @Jane.Doe\n- @alice@example.com and [[spec]]');
+      expect(refs.pages).toEqual(['spec']);
+      expect(refs.users).toEqual(['jane.doe', 'alice@example.com']);
+    });
+  });
+
+  describe('payload limits', () => {
+    it('should split long paragraphs into rich text items of at most 2000 characters', () => {
+      const blocks = markdownToBlocks('a'.repeat(4500));
+      expect(blocks).toHaveLength(1);
+      const rt = getRichText(blocks[0]);
+      expect(rt.map((r: any) => r.text.content.length)).toEqual([2000, 2000, 500]);
+    });
+
+    it('should split long code blocks at line breaks', () => {
+      const line = 'x'.repeat(99) + '\n';
+      const log = line.repeat(50).trimEnd();
+      const blocks = markdownToBlocks('```\n' + log + '\n```');
+      const rt = getRichText(blocks[0]);
+      expect(rt.length).toBeGreaterThan(1);
+      expect(rt.every((r: any) => r.text.content.length <= 2000)).toBe(true);
+      expect(rt[0].text.content.endsWith('\n')).toBe(true);
+      expect(plainText(rt)).toBe(log);
+    });
+
+    it('should continue in a new block past 100 rich text items', () => {
+      const blocks = markdownToBlocks('```\n' + 'y'.repeat(2000 * 150) + '\n```');
+      expect(blocks).toHaveLength(2);
+      expect(blocks.every(b => b.type === 'code')).toBe(true);
+      expect(getRichText(blocks[0])).toHaveLength(100);
+      expect(getRichText(blocks[1])).toHaveLength(50);
+    });
+  });
+
   describe('mixed content', () => {
     it('should parse multiple block types', () => {
       const md = `# Title
@@ -264,3 +551,114 @@ describe('inlineTokensToRichText', () => {
     expect(rt[0].annotations?.italic).toBe(true);
   });
 });
+
+describe('blocksToMarkdown', () => {
+  it('should render headings and paragraphs', () => {
+    const md = blocksToMarkdown([
+      block('heading_1', { rich_text: [rt('Title')] }),
+      block('paragraph', { rich_text: [rt('Some text')] }),
+      block('heading_3', { rich_text: [rt('Sub')] }),
+    ]);
+    expect(md).toBe('# Title\n\nSome text\n\n### Sub\n');
+  });
+
+  it('should render nested lists with numbering', () => {
+    const md = blocksToMarkdown([
+      block('numbered_list_item', { rich_text: [rt('first')] }, [
+        block('bulleted_list_item', { rich_text: [rt('child')] }),
+      ]),
+      block('numbered_list_item', { rich_text: [rt('second')] }),
+      block('to_do', { rich_text: [rt('task')], checked: true }),
+    ]);
+    expect(md).toBe('1. first\n   - child\n2. second\n- [x] task\n');
+  });
+
+  it('should render code blocks with language', () => {
+    const md = blocksToMarkdown([
+      block('code', { rich_text: [rt('const x = 1;')], language: 'typescript', caption: [] }),
+      block('code', { rich_text: [rt('plain')], language: 'plain text', caption: [] }),
+    ]);
+    expect(md).toBe('```typescript\nconst x = 1;\n```\n\n```\nplain\n```\n');
+  });
+
+  it('should render quotes, callouts and dividers', () => {
+    const md = blocksToMarkdown([
+      block('quote', { rich_text: [rt('quoted')] }),
+      block('divider', {}),
+      block('callout', { rich_text: [rt('heads up')], icon: { type: 'emoji', emoji: '💡' }, color: 'default' }),
+    ]);
+    expect(md).toBe('> quoted\n\n---\n\n> 💡 heads up\n');
+  });
+
+  it('should render tables with a header row', () => {
+    const md = blocksToMarkdown([
+      block('table', { table_width: 2, has_column_header: true, has_row_header: false }, [
+        block('table_row', { cells: [[rt('Name')], [rt('Status')]] }),
+        block('table_row', { cells: [[rt('A|B')], [rt('Done', { bold: true })]] }),
+      ]),
+    ]);
+    expect(md).toBe('| Name | Status |\n| --- | --- |\n| A\\|B | **Done** |\n');
+  });
+
+  it('should render admonition callouts and toggles', () => {
+    const md = blocksToMarkdown([
+      block('callout', { rich_text: [rt('careful')], icon: { type: 'emoji', emoji: '⚠️' }, color: 'yellow_background' }),
+      block('toggle', { rich_text: [rt('More')] }, [block('paragraph', { rich_text: [rt('inside')] })]),
+    ]);
+    expect(md).toBe('> [!WARNING]\n> careful\n\n<details>\n<summary>More</summary>\n\ninside\n\n</details>\n');
+    expect(markdownToBlocks(md).map(b => b.type)).toEqual(['callout', 'toggle']);
+  });
+
+  it('should round-trip through markdownToBlocks', () => {
+    const md = blocksToMarkdown([
+      block('heading_2', { rich_text: [rt('Plan')] }),
+      block('bulleted_list_item', { rich_text: [rt('one')] }),
+      block('bulleted_list_item', { rich_text: [rt('two')] }),
+    ]);
+    const blocks = markdownToBlocks(md);
+    expect(blocks.map(b => b.type)).toEqual(['heading_2', 'bulleted_list_item', 'bulleted_list_item']);
+  });
+});
+
+describe('richTextToMarkdown', () => {
+  it('should render annotations and links', () => {
+    const md = richTextToMarkdown([
+      rt('bold ', { bold: true }),
+      rt('italic', { italic: true }),
+      rt(' '),
+      rt('code', { code: true }),
+      rt(' '),
+      rt('link', {}, 'https://example.com'),
+    ]);
+    expect(md).toBe('**bold** _italic_ `code` [link](https://example.com)');
+  });
+
+  it('should merge adjacent items with identical formatting', () => {
+    const md = richTextToMarkdown([rt('a', { bold: true }), rt('b', { bold: true })]);
+    expect(md).toBe('**ab**');
+  });
+
+  it('should escape markdown characters in plain text', () => {
+    expect(richTextToMarkdown([rt('2 * 3 [x]')])).toBe('2 \\* 3 \\[x\\]');
+  });
+
+  it('should render colors and escape dollar signs', () => {
+    expect(richTextToMarkdown([rt('warn', { color: 'red' })])).toBe('{red}warn{/red}');
+    expect(richTextToMarkdown([rt('$5')])).toBe('\\$5');
+  });
+
+  it('should render equations', () => {
+    const md = richTextToMarkdown([{ type: 'equation', equation: { expression: 'E=mc^2' }, plain_text: 'E=mc^2', href: null, annotations: rt('').annotations }]);
+    expect(md).toBe('$E=mc^2$');
+  });
+
+  it('should render user and date mentions in the syntax markdownToBlocks reads', () => {
+    const base = { annotations: rt('').annotations, href: null };
+    const md = richTextToMarkdown([
+      { ...base, type: 'mention', mention: { type: 'user', user: { id: 'u1', object: 'user' } }, plain_text: '@Jane Doe' },
+      { ...rt(' on ') },
+      { ...base, type: 'mention', mention: { type: 'date', date: { start: '2026-10-19', end: null, time_zone: null } }, plain_text: '2026-10-19' },
+    ] as any);
+    expect(md).toBe('@[Jane Doe] on @2026-10-19');
+  });
+});
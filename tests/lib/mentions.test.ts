@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { matchUsers } from '../../src/lib/mentions.js';
+
+function person(id: string, name: string, email: string): any {
+  return { object: 'user', id, type: 'person', name, avatar_url: null, person: { email } };
+}
+
+const users = [
+  person('u1', 'Jane Doe', 'jdoe@acme.test'),
+  person('u2', 'John Smith', 'jsmith@acme.test'),
+  person('u3', 'Jane Roe', 'roe@acme.test'),
+  { object: 'user', id: 'b1', type: 'bot', name: 'Jane Bot', avatar_url: null, bot: {} } as any,
+];
+
+describe('matchUsers', () => {
+  it('should match by email, full name and email local part', () => {
+    const resolved = matchUsers(['jdoe@acme.test', 'jane.doe', 'john smith', 'jsmith'], users);
+    expect(resolved.get('jdoe@acme.test')).toBe('u1');
+    expect(resolved.get('jane.doe')).toBe('u1');
+    expect(resolved.get('john smith')).toBe('u2');
+    expect(resolved.get('jsmith')).toBe('u2');
+  });
+
+  it('should match a unique first name', () => {
+    expect(matchUsers(['john'], users).get('john')).toBe('u2');
+  });
+
+  it('should report ambiguous and unknown references', () => {
+    const warnings: string[] = [];
+    const resolved = matchUsers(['jane', 'nobody'], users, warnings);
+    expect(resolved.size).toBe(0);
+    expect(warnings).toEqual([
+      '@jane matches several users (Jane Doe, Jane Roe); left as text.',
+      'No user matches @nobody; left as text.',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { relinkBlock, relinkRichText } from '../../src/lib/move.js';
+
+const OLD_ID = '11111111111111111111111111111111';
+const NEW_ID = '22222222-2222-2222-2222-222222222222';
+const OTHER_ID = '33333333333333333333333333333333';
+const mapping = new Map([[OLD_ID, NEW_ID]]);
+
+const annotations = {
+  bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default',
+};
+
+const text = (content: string, url: string | null = null) => ({
+  type: 'text',
+  text: { content, link: url ? { url } : null },
+  annotations,
+  plain_text: content,
+  href: url,
+});
+
+const pageMention = (id: string) => ({
+  type: 'mention',
+  mention: { type: 'page', page: { id } },
+  annotations,
+  plain_text: 'Spec',
+  href: `https://www.notion.so/${id}`,
+});
+
+describe('relinkRichText', () => {
+  it('should point page mentions at the new page', () => {
+    const result = relinkRichText([text('See '), pageMention(OLD_ID)] as any, mapping);
+
+    expect(result).toEqual([
+      { type: 'text', text: { content: 'See ', link: null }, annotations },
+      { type: 'mention', mention: { page: { id: NEW_ID } }, annotations },
+    ]);
+  });
+
+  it('should rewrite notion.so and relative page links', () => {
+    const result = relinkRichText([
+      text('full', `https://www.notion.so/acme/Spec-${OLD_ID}?pvs=4`),
+      text('relative', `/${OLD_ID}#44444444444444444444444444444444`),
+    ] as any, mapping);
+
+    expect(result?.map((item: any) => item.text.link.url)).toEqual([
+      'https://www.notion.so/22222222222222222222222222222222',
+      'https://www.notion.so/22222222222222222222222222222222',
+    ]);
+  });
+
+  it('should return null when nothing refers to a moved page', () => {
+    expect(relinkRichText([
+      text('plain'),
+      text('elsewhere', `https://www.notion.so/${OTHER_ID}`),
+      pageMention(OTHER_ID),
+    ] as any, mapping)).toBeNull();
+  });
+});
+
+describe('relinkBlock', () => {
+  it('should update only the rich text of a block', () => {
+    const block = {
+      object: 'block',
+      id: 'b1',
+      type: 'to_do',
+      to_do: { rich_text: [pageMention(OLD_ID)], checked: true, color: 'default' },
+    } as any;
+
+    expect(relinkBlock(block, mapping)).toEqual({
+      to_do: { rich_text: [{ type: 'mention', mention: { page: { id: NEW_ID } }, annotations }] },
+    });
+  });
+
+  it('should rewrite table rows and keep unchanged cells', () => {
+    const block = {
+      object: 'block',
+      id: 'row',
+      type: 'table_row',
+      table_row: { cells: [[text('a')], [pageMention(OLD_ID)]] },
+    } as any;
+
+    expect(relinkBlock(block, mapping)).toEqual({
+      table_row: {
+        cells: [
+          [{ type: 'text', text: { content: 'a', link: null }, annotations }],
+          [{ type: 'mention', mention: { page: { id: NEW_ID } }, annotations }],
+        ],
+      },
+    });
+  });
+
+  it('should ignore blocks without links to moved pages', () => {
+    const block = { object: 'block', id: 'b2', type: 'paragraph', paragraph: { rich_text: [text('hi')] } } as any;
+    expect(relinkBlock(block, mapping)).toBeNull();
+    expect(relinkBlock({ object: 'block', id: 'd', type: 'divider', divider: {} } as any, mapping)).toBeNull();
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect } from 'vitest';
+import { formatDelimited, joinList, parseDelimited, splitList } from '../../src/lib/csv.js';
+import {
+  buildRowInputs,
+  formatRows,
+  mapImportColumns,
+  parseRowFile,
+  rowColumns,
+  rowFileFormat,
+  toRow,
+} from '../../src/lib/rows.js';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+  Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+  Estimate: { id: 'e', name: 'Estimate', type: 'number', number: { format: 'number' } },
+  Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+  Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  Blocks: { id: 'r', name: 'Blocks', type: 'relation', relation: { database_id: 'db', type: 'single_property' } },
+  Reviewers: { id: 'v', name: 'Reviewers', type: 'rollup', rollup: { function: 'show_original' } },
+  Action: { id: 'b', name: 'Action', type: 'button', button: {} },
+} as any;
+
+const page = {
+  object: 'page',
+  id: 'page-1',
+  properties: {
+    Name: { type: 'title', title: [{ plain_text: 'Launch, "v2"' }] },
+    Tags: { type: 'multi_select', multi_select: [{ name: 'urgent' }, { name: 'api' }] },
+    Due: { type: 'date', date: { start: '2026-11-01', end: '2026-11-05' } },
+    Estimate: { type: 'number', number: 3.5 },
+    Done: { type: 'checkbox', checkbox: false },
+    Owner: { type: 'people', people: [{ object: 'user', id: 'u1' }, { object: 'user', id: 'u2', person: { email: 'bo@example.com' } }] },
+    Blocks: { type: 'relation', relation: [{ id: 'p1' }, { id: 'p2' }] },
+    Reviewers: {
+      type: 'rollup',
+      rollup: { type: 'array', array: [{ type: 'rich_text', rich_text: [{ plain_text: 'Ada' }] }, { type: 'number', number: 2 }] },
+    },
+    Action: { type: 'button', button: {} },
+  },
+} as any;
+
+describe('rowColumns', () => {
+  it('should follow schema order with the page ID first and split dates', () => {
+    expect(rowColumns(schema).map((column) => column.header)).toEqual([
+      'id', 'Name', 'Tags', 'Due (start)', 'Due (end)', 'Estimate', 'Done', 'Owner', 'Blocks', 'Reviewers',
+    ]);
+  });
+
+  it('should rename the page ID column when a property is named id', () => {
+    const withId = { ID: { id: 'i', name: 'ID', type: 'rich_text', rich_text: {} }, ...schema };
+    expect(rowColumns(withId).slice(0, 2)).toEqual([{ header: '_id', type: 'id' }, { header: 'ID', property: 'ID', type: 'rich_text' }]);
+  });
+});
+
+describe('toRow', () => {
+  it('should keep typed values', () => {
+    const lookup = { emails: new Map([['u1', 'ada@example.com']]), titles: new Map([['p1', 'Spec']]) };
+    expect(toRow(page, rowColumns(schema), lookup)).toEqual({
+      id: 'page-1',
+      Name: 'Launch, "v2"',
+      Tags: ['urgent', 'api'],
+      'Due (start)': '2026-11-01',
+      'Due (end)': '2026-11-05',
+      Estimate: 3.5,
+      Done: false,
+      Owner: ['ada@example.com', 'bo@example.com'],
+      Blocks: ['Spec', 'p2'],
+      Reviewers: ['Ada', '2'],
+    });
+  });
+
+  it('should fall back to user IDs without an email', () => {
+    expect(toRow(page, rowColumns(schema)).Owner).toEqual(['u1', 'bo@example.com']);
+  });
+});
+
+describe('formatRows', () => {
+  const data = { columns: rowColumns(schema), rows: [toRow(page, rowColumns(schema))] };
+
+  it('should write CSV with a header and quoted cells', () => {
+    expect(formatRows(data, 'csv').split('\n')).toEqual([
+      'id,Name,Tags,Due (start),Due (end),Estimate,Done,Owner,Blocks,Reviewers',
+      'page-1,"Launch, ""v2""","urgent, api",2026-11-01,2026-11-05,3.5,false,"u1, bo@example.com","p1, p2","Ada, 2"',
+      '',
+    ]);
+  });
+
+  it('should join lists with the given delimiter in TSV', () => {
+    const [, row] = formatRows(data, 'tsv', '|').split('\n');
+    expect(row.split('\t')).toEqual([
+      'page-1', '"Launch, ""v2"""', 'urgent|api', '2026-11-01', '2026-11-05', '3.5', 'false', 'u1|bo@example.com', 'p1|p2', 'Ada|2',
+    ]);
+  });
+
+  it('should write one JSON object per row in NDJSON', () => {
+    const lines = formatRows(data, 'ndjson').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ Tags: ['urgent', 'api'], Estimate: 3.5, Done: false });
+  });
+
+  it('should write an empty NDJSON file without rows', () => {
+    expect(formatRows({ columns: data.columns, rows: [] }, 'ndjson')).toBe('');
+  });
+});
+
+describe('formatDelimited', () => {
+  it('should quote separators, quotes, newlines and edge spaces', () => {
+    expect(formatDelimited([['a,b', 'say "hi"', 'two\nlines', ' padded', 'plain']])).toBe(
+      '"a,b","say ""hi""","two\nlines"," padded",plain\n'
+    );
+    expect(formatDelimited([['a,b', 'c\td']], '\t')).toBe('a,b\t"c\td"\n');
+  });
+});
+
+describe('joinList / splitList', () => {
+  it('should quote entries that contain the delimiter and read them back', () => {
+    const items = ['Spec, draft', '"Quoted" title', 'plain'];
+    const text = joinList(items, ', ');
+    expect(text).toBe('"Spec, draft", """Quoted"" title", plain');
+    expect(splitList(text, ',')).toEqual(items);
+    expect(splitList(joinList(items, ' | '), ' | ')).toEqual(items);
+  });
+
+  it('should split unquoted text on the delimiter', () => {
+    expect(splitList('a, b ,,c', ',')).toEqual(['a', 'b', 'c']);
+    expect(splitList('say "hi", x', ',')).toEqual(['say "hi"', 'x']);
+  });
+});
+
+describe('parseDelimited', () => {
+  it('should read quoted cells and keep the starting line of each record', () => {
+    const text = '\uFEFFa,b\r\n"x, ""y""","two\nlines"\n\nlast,\n';
+    expect(parseDelimited(text)).toEqual([
+      { cells: ['a', 'b'], line: 1 },
+      { cells: ['x, "y"', 'two\nlines'], line: 2 },
+      { cells: ['last', ''], line: 5 },
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseDelimited('a\n"open,b\n')).toThrow('starting on line 2');
+  });
+});
+
+describe('parseRowFile', () => {
+  it('should key CSV cells by header and report rows with extra cells', () => {
+    const file = parseRowFile('Name,Estimate\nA,1\nB\nC,2,extra\n', 'csv');
+    expect(file.headers).toEqual(['Name', 'Estimate']);
+    expect(file.records).toEqual([
+      { line: 2, values: { Name: 'A', Estimate: '1' } },
+      { line: 3, values: { Name: 'B', Estimate: '' } },
+    ]);
+    expect(file.errors).toEqual([{ line: 4, message: 'Row has 3 cells but the header has 2.' }]);
+  });
+
+  it('should read JSON lines and report invalid ones', () => {
+    const file = parseRowFile('{"Name":"A","Tags":["x"]}\n\n[1]\n{"Estimate":2}\n', 'jsonl');
+    expect(file.headers).toEqual(['Name', 'Tags', 'Estimate']);
+    expect(file.records.map((record) => record.line)).toEqual([1, 4]);
+    expect(file.errors[0]).toMatchObject({ line: 3 });
+  });
+
+  it('should pick the format from the extension', () => {
+    expect(rowFileFormat('rows.TSV')).toBe('tsv');
+    expect(rowFileFormat('rows.ndjson')).toBe('jsonl');
+    expect(rowFileFormat('rows.txt')).toBe('csv');
+  });
+});
+
+describe('mapImportColumns', () => {
+  it('should match headers, date parts and --map entries', () => {
+    const { columns, warnings } = mapImportColumns(
+      ['id', 'name', 'Due (start)', 'Due (end)', 'Points', 'Legacy', 'Reviewers', 'Notes'],
+      schema,
+      { Points: 'Estimate', Legacy: null }
+    );
+    expect(columns).toEqual([
+      { header: 'name', property: 'Name', type: 'title' },
+      { header: 'Due (start)', property: 'Due', type: 'date', part: 'start' },
+      { header: 'Due (end)', property: 'Due', type: 'date', part: 'end' },
+      { header: 'Points', property: 'Estimate', type: 'number' },
+      { header: 'Reviewers', property: 'Reviewers', type: 'rollup', readOnly: true },
+    ]);
+    expect(warnings).toEqual([
+      'Skipping column(s) that match no property: Notes. Map them with --map.',
+      'Skipping computed column(s), which Notion fills in: Reviewers.',
+    ]);
+  });
+
+  it('should map an id column to a property named id and skip _id', () => {
+    const withId = { ...schema, id: { id: 'i', name: 'id', type: 'rich_text', rich_text: {} } };
+    expect(mapImportColumns(['_id', 'id'], withId).columns).toEqual([{ header: 'id', property: 'id', type: 'rich_text' }]);
+  });
+
+  it('should reject a map to an unknown property', () => {
+    expect(() => mapImportColumns(['A'], schema, { A: 'Nope' })).toThrow('--map sends "A" to unknown property "Nope"');
+  });
+});
+
+describe('buildRowInputs', () => {
+  const USER_ID = '11111111111111111111111111111111';
+  const PAGE_ID = '22222222222222222222222222222222';
+  const record = (line: number, values: Record<string, unknown>) => ({ line, values });
+
+  it('should coerce cells into property payloads and skip empty ones', () => {
+    const { columns } = mapImportColumns(['Name', 'Tags', 'Due (start)', 'Due (end)', 'Estimate', 'Done', 'Owner', 'Blocks'], schema);
+    const lookup = { users: new Map([['ada@example.com', USER_ID]]), pages: new Map([['spec', PAGE_ID]]) };
+    const { inputs, errors } = buildRowInputs(
+      [record(2, {
+        Name: 'Launch', Tags: 'urgent, api', 'Due (start)': '2026-11-01', 'Due (end)': '2026-11-05',
+        Estimate: '1,200', Done: 'yes', Owner: 'ada@example.com', Blocks: 'Spec',
+      })],
+      columns,
+      schema,
+      { lookup }
+    );
+
+    expect(errors).toEqual([]);
+    expect(inputs[0]).toEqual({
+      line: 2,
+      properties: {
+        Name: { title: [{ type: 'text', text: { content: 'Launch' } }] },
+        Tags: { multi_select: [{ name: 'urgent' }, { name: 'api' }] },
+        Estimate: { number: 1200 },
+        Done: { checkbox: true },
+        Owner: { people: [{ id: USER_ID }] },
+        Blocks: { relation: [{ id: PAGE_ID }] },
+        Due: { date: { start: '2026-11-01', end: '2026-11-05' } },
+      },
+    });
+
+    const empty = buildRowInputs([record(3, { Name: 'Only', Tags: '', Estimate: '' })], columns, schema);
+    expect(Object.keys(empty.inputs[0].properties)).toEqual(['Name']);
+  });
+
+  it('should report bad rows with their line numbers', () => {
+    const { columns } = mapImportColumns(['Name', 'Estimate', 'Done', 'Owner', 'Due (end)'], schema);
+    const { inputs, errors } = buildRowInputs(
+      [
+        record(2, { Name: 'ok', Estimate: '3' }),
+        record(3, { Name: 'bad number', Estimate: 'three' }),
+        record(4, { Name: 'bad flag', Done: 'maybe' }),
+        record(5, { Name: 'unknown user', Owner: 'nobody@example.com' }),
+        record(6, { Name: 'half range', 'Due (end)': '2026-11-05' }),
+      ],
+      columns,
+      schema
+    );
+
+    expect(inputs.map((input) => input.line)).toEqual([2]);
+    expect(errors.map((error) => error.line)).toEqual([3, 4, 5, 6]);
+    expect(errors[0].message).toContain('expects a number');
+    expect(errors[2].message).toContain('No user matches "nobody@example.com"');
+    expect(errors[3].message).toContain('"Due (start)" is empty');
+  });
+
+  it('should read upsert keys and reject duplicates and blanks', () => {
+    const { columns } = mapImportColumns(['Name', 'Estimate'], schema);
+    const keyColumn = columns.find((column) => column.property === 'Estimate');
+    const { inputs, errors } = buildRowInputs(
+      [record(2, { Name: 'a', Estimate: '3.0' }), record(3, { Name: 'b', Estimate: '3' }), record(4, { Name: 'c' })],
+      columns,
+      schema,
+      { keyColumn }
+    );
+
+    expect(inputs).toMatchObject([{ line: 2, key: '3' }]);
+    expect(errors).toEqual([
+      { line: 3, message: 'The upsert key "3" is also used on line 2.' },
+      { line: 4, message: 'The upsert key "Estimate" is empty.' },
+    ]);
+  });
+
+  it('should read back what db export writes', () => {
+    const columns = rowColumns(schema);
+    const csv = formatRows({ columns, rows: [toRow(page, columns, { emails: new Map([['u1', 'ada@example.com']]) })] }, 'csv');
+    const file = parseRowFile(csv, 'csv');
+    const mapped = mapImportColumns(file.headers, schema);
+    const { inputs, errors } = buildRowInputs(file.records, mapped.columns, schema, {
+      lookup: {
+        users: new Map([['ada@example.com', USER_ID], ['bo@example.com', USER_ID]]),
+        pages: new Map([['p1', PAGE_ID], ['p2', PAGE_ID]]),
+      },
+    });
+
+    expect(errors).toEqual([]);
+    expect(inputs[0].properties).toMatchObject({
+      Name: { title: [{ text: { content: 'Launch, "v2"' } }] },
+      Tags: { multi_select: [{ name: 'urgent' }, { name: 'api' }] },
+      Due: { date: { start: '2026-11-01', end: '2026-11-05' } },
+      Estimate: { number: 3.5 },
+      Done: { checkbox: false },
+    });
+  });
+
+  it('should read back relation titles with commas and a property named id', () => {
+    const withId = { ...schema, id: { id: 'i', name: 'id', type: 'rich_text', rich_text: {} } };
+    const tracked = { ...page, properties: { ...page.properties, id: { type: 'rich_text', rich_text: [{ plain_text: 'T-1' }] } } };
+    const columns = rowColumns(withId);
+    const titles = new Map([['p1', 'Spec, draft'], ['p2', 'Plan']]);
+    const csv = formatRows({ columns, rows: [toRow(tracked, columns, { titles })] }, 'csv');
+    const file = parseRowFile(csv, 'csv');
+    const mapped = mapImportColumns(file.headers, withId);
+    const { inputs, errors } = buildRowInputs(file.records, mapped.columns, withId, {
+      keyColumn: 'id',
+      lookup: {
+        users: new Map([['u1', USER_ID], ['bo@example.com', USER_ID]]),
+        pages: new Map([['spec, draft', PAGE_ID], ['plan', PAGE_ID]]),
+      },
+    });
+
+    expect(errors).toEqual([]);
+    expect(inputs[0]).toMatchObject({
+      key: 'page-1',
+      properties: {
+        id: { rich_text: [{ text: { content: 'T-1' } }] },
+        Blocks: { relation: [{ id: PAGE_ID }, { id: PAGE_ID }] },
+      },
+    });
+  });
+});
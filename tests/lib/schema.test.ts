@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addOptions,
+  addProperty,
+  formatSchemaChanges,
+  propertyConfig,
+  removeOptions,
+  removeProperty,
+  renameOption,
+  renameProperty,
+  setPropertyType,
+} from '../../src/lib/schema.js';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  Tags: {
+    id: 't',
+    name: 'Tags',
+    type: 'multi_select',
+    multi_select: {
+      options: [
+        { id: 't1', name: 'urgent', color: 'red' },
+        { id: 't2', name: 'stale', color: 'gray' },
+      ],
+    },
+  },
+  Status: { id: 's', name: 'Status', type: 'status', status: { options: [], groups: [] } },
+} as any;
+
+describe('addProperty', () => {
+  it('should add a select property with colored options', () => {
+    const update = addProperty(schema, 'Priority', 'select', { options: ['High', 'Low'], color: 'blue' });
+    expect(update.properties).toEqual({
+      Priority: { select: { options: [{ name: 'High', color: 'blue' }, { name: 'Low', color: 'blue' }] } },
+    });
+    expect(update.changes).toEqual([{ description: 'add property "Priority" (select)', destructive: false }]);
+  });
+
+  it('should reject existing names regardless of case', () => {
+    expect(() => addProperty(schema, 'owner', 'rich_text')).toThrow('Property "Owner" already exists');
+  });
+
+  it('should reject types the API cannot create', () => {
+    expect(() => addProperty(schema, 'State', 'status')).toThrow('cannot create status properties');
+    expect(() => addProperty(schema, 'Sum', 'rollup')).toThrow('Rollups need a relation');
+    expect(() => addProperty(schema, 'X', 'banana')).toThrow('Unknown property type "banana"');
+  });
+});
+
+describe('propertyConfig', () => {
+  it('should build number, formula and relation configs', () => {
+    expect(propertyConfig('number', { format: 'dollar' })).toEqual({ number: { format: 'dollar' } });
+    expect(propertyConfig('formula', { expression: 'prop("Owner")' })).toEqual({ formula: { expression: 'prop("Owner")' } });
+    expect(propertyConfig('relation', { relationDatabase: '0123456789abcdef0123456789ABCDEF' })).toEqual({
+      relation: { database_id: '0123456789abcdef0123456789abcdef', type: 'single_property', single_property: {} },
+    });
+  });
+
+  it('should require the settings some types need', () => {
+    expect(() => propertyConfig('formula')).toThrow('--expression');
+    expect(() => propertyConfig('relation')).toThrow('--relation-database');
+    expect(() => propertyConfig('select', { options: ['a,b'] })).toThrow('cannot contain commas');
+    expect(() => propertyConfig('select', { color: 'teal' })).toThrow('Invalid color "teal"');
+  });
+});
+
+describe('renameProperty / removeProperty', () => {
+  it('should rename by the current name', () => {
+    expect(renameProperty(schema, 'owner', 'Assignee').properties).toEqual({ Owner: { name: 'Assignee' } });
+  });
+
+  it('should reject renaming onto another property', () => {
+    expect(() => renameProperty(schema, 'Owner', 'Tags')).toThrow('Property "Tags" already exists');
+  });
+
+  it('should remove a property as a destructive change', () => {
+    const update = removeProperty(schema, 'Tags');
+    expect(update.properties).toEqual({ Tags: null });
+    expect(update.changes[0].destructive).toBe(true);
+  });
+
+  it('should keep the title property', () => {
+    expect(() => removeProperty(schema, 'Name')).toThrow('title property');
+    expect(() => removeProperty(schema, 'Missing')).toThrow('Unknown property "Missing"');
+  });
+});
+
+describe('setPropertyType', () => {
+  it('should carry options over from multi_select to select', () => {
+    const update = setPropertyType(schema, 'Tags', 'select');
+    expect(update.properties).toEqual({
+      Tags: { select: { options: [{ name: 'urgent' }, { name: 'stale' }] } },
+    });
+    expect(update.changes).toEqual([{ description: 'change "Tags" from multi_select to select', destructive: true }]);
+  });
+
+  it('should reject a no-op change', () => {
+    expect(() => setPropertyType(schema, 'Owner', 'people')).toThrow('already has type people');
+  });
+});
+
+describe('options', () => {
+  it('should add options and keep existing ones by ID', () => {
+    const update = addOptions(schema, 'Tags', ['urgent', 'blocked'], 'orange');
+    expect(update.properties).toEqual({
+      Tags: {
+        multi_select: {
+          options: [{ id: 't1', name: 'urgent' }, { id: 't2', name: 'stale' }, { name: 'blocked', color: 'orange' }],
+        },
+      },
+    });
+    expect(update.changes[0].description).toBe('add option(s) "blocked" to "Tags"');
+  });
+
+  it('should fail when every option already exists', () => {
+    expect(() => addOptions(schema, 'Tags', ['URGENT'])).toThrow('already has "URGENT"');
+  });
+
+  it('should rename an option in place', () => {
+    expect(renameOption(schema, 'Tags', 'stale', 'old').properties).toEqual({
+      Tags: { multi_select: { options: [{ id: 't1', name: 'urgent' }, { id: 't2', name: 'old' }] } },
+    });
+  });
+
+  it('should remove options as a destructive change', () => {
+    const update = removeOptions(schema, 'Tags', ['stale']);
+    expect(update.properties).toEqual({ Tags: { multi_select: { options: [{ id: 't1', name: 'urgent' }] } } });
+    expect(update.changes[0].destructive).toBe(true);
+    expect(() => removeOptions(schema, 'Tags', ['nope'])).toThrow('Unknown option "nope" for "Tags"');
+  });
+
+  it('should explain that status options are not editable', () => {
+    expect(() => addOptions(schema, 'Status', ['Blocked'])).toThrow('cannot change status options');
+    expect(() => addOptions(schema, 'Owner', ['x'])).toThrow('options only exist on select and multi_select');
+  });
+});
+
+describe('formatSchemaChanges', () => {
+  it('should mark destructive changes', () => {
+    expect(formatSchemaChanges([
+      { description: 'add property "A" (url)', destructive: false },
+      { description: 'remove property "B" (url) and its values', destructive: true },
+    ])).toEqual(['+ add property "A" (url)', '! remove property "B" (url) and its values']);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { buildPropertyValues, completeLists, parsePropertySetter, PAGE_SCHEMA } from '../../src/lib/setters.js';
+
+const USER_ID = '11111111111111111111111111111111';
+const PAGE_ID = '22222222222222222222222222222222';
+
+const options = (...names: string[]) => names.map((name, i) => ({ id: String(i), name, color: 'default' }));
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Status: { id: 's', name: 'Status', type: 'status', status: { options: options('Todo', 'Done'), groups: [] } },
+  Priority: { id: 'p', name: 'Priority', type: 'select', select: { options: options('High', 'Low') } },
+  Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: options('urgent', 'stale', 'api') } },
+  Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+  Estimate: { id: 'e', name: 'Estimate', type: 'number', number: { format: 'number' } },
+  Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+  Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  Blocks: { id: 'r', name: 'Blocks', type: 'relation', relation: { database_id: 'db', type: 'single_property' } },
+} as any;
+
+const current = {
+  Tags: { id: 't', type: 'multi_select', multi_select: [{ id: '1', name: 'stale', color: 'default' }] },
+  Owner: { id: 'o', type: 'people', people: [{ object: 'user', id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' }] },
+} as any;
+
+const set = (...inputs: string[]) => inputs.map(parsePropertySetter);
+
+describe('parsePropertySetter', () => {
+  it('should parse the three operations', () => {
+    expect(parsePropertySetter('Status=Done')).toEqual({ name: 'Status', operation: '=', value: 'Done' });
+    expect(parsePropertySetter('Tags+=urgent')).toEqual({ name: 'Tags', operation: '+=', value: 'urgent' });
+    expect(parsePropertySetter('Tags -= stale')).toEqual({ name: 'Tags', operation: '-=', value: 'stale' });
+  });
+
+  it('should keep = signs in the value', () => {
+    expect(parsePropertySetter('Link=https://x.test/?a=b').value).toBe('https://x.test/?a=b');
+  });
+
+  it('should reject input without a name or =', () => {
+    expect(() => parsePropertySetter('Status')).toThrow('Invalid --set "Status"');
+    expect(() => parsePropertySetter('=Done')).toThrow('Invalid --set');
+  });
+});
+
+describe('buildPropertyValues', () => {
+  it('should convert scalar properties', () => {
+    const values = buildPropertyValues(
+      set('Status=done', 'priority=high', 'Due=2026-11-01..2026-11-05', 'Estimate=3', 'Done=yes'),
+      schema
+    );
+
+    expect(values).toEqual({
+      Status: { status: { name: 'Done' } },
+      Priority: { select: { name: 'High' } },
+      Due: { date: { start: '2026-11-01', end: '2026-11-05' } },
+      Estimate: { number: 3 },
+      Done: { checkbox: true },
+    });
+  });
+
+  it('should add to and remove from multi_select values', () => {
+    expect(buildPropertyValues(set('Tags+=urgent', 'Tags+=api', 'Tags-=stale'), schema, current)).toEqual({
+      Tags: { multi_select: [{ name: 'urgent' }, { name: 'api' }] },
+    });
+  });
+
+  it('should replace lists with =', () => {
+    expect(buildPropertyValues(set('Tags=api,urgent'), schema, current)).toEqual({
+      Tags: { multi_select: [{ name: 'api' }, { name: 'urgent' }] },
+    });
+  });
+
+  it('should resolve people and relations through the lookup', () => {
+    const lookup = {
+      users: new Map([['alice@example.com', USER_ID]]),
+      pages: new Map([['login page', PAGE_ID]]),
+    };
+
+    expect(buildPropertyValues(set('Owner+=alice@example.com', 'Blocks=Login page'), schema, current, lookup)).toEqual({
+      Owner: { people: [{ id: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' }, { id: USER_ID }] },
+      Blocks: { relation: [{ id: PAGE_ID }] },
+    });
+  });
+
+  it('should remove people given by ID', () => {
+    expect(buildPropertyValues(set('Owner-=aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), schema, current)).toEqual({
+      Owner: { people: [] },
+    });
+  });
+
+  it('should report unknown properties and options', () => {
+    expect(() => buildPropertyValues(set('Stage=Done'), schema)).toThrow('Unknown property "Stage". Properties: Name, Status');
+    expect(() => buildPropertyValues(set('Priority=Urgent'), schema)).toThrow('Unknown option "Urgent" for "Priority". Options: High, Low');
+    expect(() => buildPropertyValues(set('Tags+=new'), schema)).toThrow('Unknown option "new" for "Tags"');
+    expect(() => buildPropertyValues(set('Status=Blocked'), schema)).toThrow('Unknown status "Blocked"');
+  });
+
+  it('should report unresolved people and += on scalar properties', () => {
+    expect(() => buildPropertyValues(set('Owner=bob@example.com'), schema)).toThrow('No user matches "bob@example.com"');
+    expect(() => buildPropertyValues(set('Estimate+=1'), schema)).toThrow('only works for multi_select, people and relation');
+  });
+
+  it('should set the title of pages outside a database', () => {
+    expect(buildPropertyValues(set('title=Notes'), PAGE_SCHEMA)).toEqual({
+      title: { title: [{ type: 'text', text: { content: 'Notes' } }] },
+    });
+  });
+});
+
+describe('completeLists', () => {
+  const id = (i: number) => i.toString(16).padStart(32, '0');
+  const all = Array.from({ length: 30 }, (_, i) => id(i + 1));
+  const truncated = {
+    Blocks: { id: 'r', type: 'relation', relation: all.slice(0, 25).map((page) => ({ id: page })), has_more: true },
+    Owner: current.Owner,
+  } as any;
+
+  it('should read the full relation before adding to it', async () => {
+    const read: string[] = [];
+    const properties = await completeLists(set(`Blocks+=${PAGE_ID}`), schema, truncated, async (property) => {
+      read.push(property.id);
+      return all;
+    });
+    const values = buildPropertyValues(set(`Blocks+=${PAGE_ID}`), schema, properties) as any;
+
+    expect(read).toEqual(['r']);
+    expect(values.Blocks.relation).toHaveLength(31);
+    expect(values.Blocks.relation[29]).toEqual({ id: id(30) });
+  });
+
+  it('should leave short lists and = setters alone', async () => {
+    const properties = await completeLists(set(`Owner+=${USER_ID}`, `Blocks=${PAGE_ID}`), schema, truncated, async () => {
+      throw new Error('not expected');
+    });
+    expect(properties).toEqual(truncated);
+  });
+});
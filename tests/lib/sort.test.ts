@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSortSpec,
+  planDatabaseSort,
+  planSearchSort,
+  sortPages,
+  sortSearchResults,
+} from '../../src/lib/sort.js';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Priority: { id: 'p', name: 'Priority', type: 'number', number: { format: 'number' } },
+  Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+  Blocks: { id: 'r', name: 'Blocks', type: 'relation', relation: { database_id: 'db', type: 'single_property' } },
+  Owners: { id: 'o', name: 'Owners', type: 'rollup', rollup: { function: 'show_original' } },
+  Total: { id: 't', name: 'Total', type: 'rollup', rollup: { function: 'sum' } },
+} as any;
+
+const page = (id: string, properties: Record<string, unknown>, created = '2026-01-01T00:00:00.000Z') => ({
+  object: 'page',
+  id,
+  created_time: created,
+  last_edited_time: created,
+  properties,
+}) as any;
+
+const number = (value: number | null) => ({ type: 'number', number: value });
+const relation = (count: number) => ({ type: 'relation', relation: Array.from({ length: count }, (_, i) => ({ id: String(i) })) });
+
+describe('parseSortSpec', () => {
+  it('should parse keys with optional directions', () => {
+    expect(parseSortSpec('Priority:desc, Due:asc,@last_edited:DESC,Name')).toEqual([
+      { name: 'Priority', direction: 'descending' },
+      { name: 'Due', direction: 'ascending' },
+      { name: '@last_edited', direction: 'descending' },
+      { name: 'Name', direction: 'ascending' },
+    ]);
+  });
+
+  it('should keep colons in property names', () => {
+    expect(parseSortSpec('Q3: Goals:desc')).toEqual([{ name: 'Q3: Goals', direction: 'descending' }]);
+  });
+
+  it('should reject unknown directions and empty specs', () => {
+    expect(() => parseSortSpec('Priority:down')).toThrow('Invalid sort direction "down"');
+    expect(() => parseSortSpec(' , ')).toThrow('Invalid sort');
+  });
+});
+
+describe('planDatabaseSort', () => {
+  it('should map properties and timestamps to Notion sorts', () => {
+    expect(planDatabaseSort(parseSortSpec('priority:desc,@created'), schema)).toEqual({
+      sorts: [
+        { property: 'Priority', direction: 'descending' },
+        { timestamp: 'created_time', direction: 'ascending' },
+      ],
+      clientSide: false,
+      localKeys: [],
+    });
+  });
+
+  it('should sort locally for relations and array rollups only', () => {
+    expect(planDatabaseSort(parseSortSpec('Blocks:desc,Total'), schema)).toMatchObject({
+      clientSide: true,
+      localKeys: ['Blocks'],
+    });
+    expect(planDatabaseSort(parseSortSpec('Owners'), schema).localKeys).toEqual(['Owners']);
+  });
+
+  it('should reject unknown properties', () => {
+    expect(() => planDatabaseSort(parseSortSpec('Priorty'), schema)).toThrow('Unknown property "Priorty"');
+  });
+});
+
+describe('sortPages', () => {
+  it('should apply every key in order and keep ties stable', () => {
+    const pages = [
+      page('a', { Priority: number(1), Blocks: relation(2) }),
+      page('b', { Priority: number(2), Blocks: relation(0) }),
+      page('c', { Priority: number(1), Blocks: relation(5) }),
+      page('d', { Priority: number(2), Blocks: relation(0) }),
+    ];
+    const sorted = sortPages(pages, [
+      { property: 'Priority', direction: 'descending' },
+      { property: 'Blocks', direction: 'ascending' },
+    ]);
+    expect(sorted.map((p) => p.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('should put empty values last in both directions', () => {
+    const pages = [page('a', { Priority: number(null) }), page('b', { Priority: number(3) }), page('c', { Priority: number(1) })];
+    expect(sortPages(pages, [{ property: 'Priority', direction: 'ascending' }]).map((p) => p.id)).toEqual(['c', 'b', 'a']);
+    expect(sortPages(pages, [{ property: 'Priority', direction: 'descending' }]).map((p) => p.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should sort by array rollup size and timestamps', () => {
+    const rollup = (size: number) => ({ type: 'rollup', rollup: { type: 'array', array: new Array(size).fill({}) } });
+    const pages = [
+      page('a', { Owners: rollup(1) }, '2026-03-01T00:00:00.000Z'),
+      page('b', { Owners: rollup(3) }, '2026-01-01T00:00:00.000Z'),
+    ];
+    expect(sortPages(pages, [{ property: 'Owners', direction: 'descending' }]).map((p) => p.id)).toEqual(['b', 'a']);
+    expect(sortPages(pages, [{ timestamp: 'created_time', direction: 'ascending' }]).map((p) => p.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('planSearchSort', () => {
+  it('should keep a bare direction on the server', () => {
+    expect(planSearchSort('descending')).toEqual({
+      sorts: [{ timestamp: 'last_edited_time', direction: 'descending' }],
+      clientSide: false,
+      localKeys: [],
+    });
+    expect(planSearchSort('@last_edited:asc').clientSide).toBe(false);
+  });
+
+  it('should sort other keys locally', () => {
+    expect(planSearchSort('title,@created:desc')).toEqual({
+      sorts: [
+        { property: 'title', direction: 'ascending' },
+        { timestamp: 'created_time', direction: 'descending' },
+      ],
+      clientSide: true,
+      localKeys: ['title', '@created'],
+    });
+  });
+
+  it('should reject properties search results do not share', () => {
+    expect(() => planSearchSort('Priority')).toThrow('can only be sorted by title, @created and @last_edited');
+  });
+});
+
+describe('sortSearchResults', () => {
+  it('should sort pages and databases by title', () => {
+    const results = [
+      { object: 'page', id: 'p', properties: { Name: { type: 'title', title: [{ plain_text: 'Zeta' }] } } },
+      { object: 'database', id: 'd', title: [{ plain_text: 'alpha' }] },
+    ] as any[];
+    expect(sortSearchResults(results, [{ property: 'title', direction: 'ascending' }]).map((r) => r.id)).toEqual(['d', 'p']);
+  });
+});
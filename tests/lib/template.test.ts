@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  buildPageFromTemplate,
+  fillTemplate,
+  fillMarkdownTemplate,
+  fillTemplateValues,
+  parseTemplateVariables,
+} from '../../src/lib/template.js';
+
+describe('parseTemplateVariables', () => {
+  it('should split on the first =', () => {
+    expect(parseTemplateVariables(['name=Sprint-42', 'query=a=b', 'empty='])).toEqual({
+      name: 'Sprint-42',
+      query: 'a=b',
+      empty: '',
+    });
+  });
+
+  it('should reject entries without a name', () => {
+    expect(() => parseTemplateVariables(['Sprint-42'])).toThrow('Invalid --var "Sprint-42"');
+  });
+});
+
+describe('fillTemplate', () => {
+  it('should replace placeholders and report unknown ones', () => {
+    const missing = new Set<string>();
+    expect(fillTemplate('{{name}} starts {{ date }}, owner {{owner}}', { name: 'Sprint 42', date: '2026-11-01' }, missing))
+      .toBe('Sprint 42 starts 2026-11-01, owner {{owner}}');
+    expect([...missing]).toEqual(['owner']);
+  });
+
+  it('should fill every string of a request', () => {
+    const block = {
+      object: 'block',
+      type: 'paragraph',
+      paragraph: {
+        rich_text: [{ type: 'text', text: { content: 'Retro for {{name}}', link: { url: 'https://x.test/{{name}}' } } }],
+      },
+    };
+
+    expect(fillTemplateValues(block, { name: 's42' })).toEqual({
+      object: 'block',
+      type: 'paragraph',
+      paragraph: {
+        rich_text: [{ type: 'text', text: { content: 'Retro for s42', link: { url: 'https://x.test/s42' } } }],
+      },
+    });
+  });
+});
+
+describe('fillMarkdownTemplate', () => {
+  it('should fill parsed front matter values without re-parsing them as YAML', () => {
+    const source = '---\ntitle: {{name}}\nNotes: "Owner: {{owner}}"\nTags: [{{tag}}]\n---\nBy {{owner}}\n';
+    const document = fillMarkdownTemplate(source, { name: 'a: b', owner: '#x', tag: 'line 1\nline 2' });
+
+    expect(document.data).toEqual({ title: 'a: b', Notes: 'Owner: #x', Tags: ['line 1\nline 2'] });
+    expect(document.body).toBe('By #x\n');
+  });
+
+  it('should keep and report unknown placeholders', () => {
+    const missing = new Set<string>();
+    const document = fillMarkdownTemplate('---\ntitle: {{ name }}\n---\n', {}, missing);
+    expect(document.data).toEqual({ title: '{{ name }}' });
+    expect([...missing]).toEqual(['name']);
+  });
+});
+
+describe('buildPageFromTemplate', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'onotion-template-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fill in a Markdown template and its front matter', async () => {
+    const file = join(dir, 'sprint.md');
+    writeFileSync(file, '---\ntitle: {{name}}\nicon: 🏃\n---\n\n## Goals for {{name}}\n\nStarts {{date}}.\n');
+
+    const page = await buildPageFromTemplate(file, { type: 'page_id', id: 'parent' }, { name: 'Sprint-42' });
+
+    expect(page.params.properties).toEqual({ title: { title: [{ type: 'text', text: { content: 'Sprint-42' } }] } });
+    expect(page.params.icon).toEqual({ type: 'emoji', emoji: '🏃' });
+    expect(page.children[0]).toMatchObject({
+      type: 'heading_2',
+      heading_2: { rich_text: [{ text: { content: 'Goals for Sprint-42' } }] },
+    });
+    expect(page.warnings).toEqual(['No value for {{date}}; pass --var date=<value>. Left as is.']);
+  });
+
+  it('should let --title replace the template title', async () => {
+    const file = join(dir, 'incident.md');
+    writeFileSync(file, '# Incident\n\nWhat happened?\n');
+
+    const page = await buildPageFromTemplate(
+      file,
+      { type: 'page_id', id: 'parent' },
+      { id: '17' },
+      { title: 'Incident {{id}}' }
+    );
+
+    expect(page.params.properties).toEqual({ title: { title: [{ type: 'text', text: { content: 'Incident 17' } }] } });
+    expect(page.warnings).toEqual([]);
+  });
+});
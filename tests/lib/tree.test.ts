@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { fetchPageTree, formatTree, type TreeNode, type TreeReader } from '../../src/lib/tree.js';
+
+const node = (id: string, title: string, children: TreeNode[] = [], type: TreeNode['type'] = 'page'): TreeNode => ({
+  id,
+  type,
+  title,
+  last_edited_time: '2026-10-01T09:30:00.000Z',
+  children,
+});
+
+describe('formatTree', () => {
+  it('should draw an indented tree with IDs and edit times', () => {
+    const root = node('root', 'Team Space', [
+      node('a', 'Roadmap', [node('a1', 'Q3'), node('a2', 'Q4')]),
+      node('b', 'Tasks', [], 'database'),
+    ]);
+
+    expect(formatTree(root, false)).toBe([
+      'Team Space root · edited 2026-10-01 09:30',
+      '├── Roadmap a · edited 2026-10-01 09:30',
+      '│   ├── Q3 a1 · edited 2026-10-01 09:30',
+      '│   └── Q4 a2 · edited 2026-10-01 09:30',
+      '└── [database] Tasks b · edited 2026-10-01 09:30',
+    ].join('\n'));
+  });
+
+  it('should print a page without children on one line', () => {
+    expect(formatTree(node('root', 'Empty'), false)).toBe('Empty root · edited 2026-10-01 09:30');
+  });
+});
+
+describe('fetchPageTree', () => {
+  const EDITED = '2026-10-01T09:30:00.000Z';
+  const block = (id: string, type: string, extra: Record<string, unknown> = {}) => ({
+    object: 'block',
+    id,
+    type,
+    has_children: false,
+    archived: false,
+    last_edited_time: EDITED,
+    [type]: type === 'child_page' || type === 'child_database' ? { title: id.toUpperCase() } : {},
+    ...extra,
+  }) as any;
+
+  const children: Record<string, any[]> = {
+    root: [
+      block('a', 'child_page'),
+      block('text', 'paragraph'),
+      block('cols', 'column_list', { has_children: true }),
+      block('gone', 'child_page', { archived: true }),
+      block('trashed', 'child_page', { in_trash: true }),
+    ],
+    a: [block('a1', 'child_page')],
+    a1: [block('a2', 'child_page')],
+    cols: [block('col', 'column', { has_children: true })],
+    col: [block('db', 'child_database')],
+  };
+
+  const listed: string[] = [];
+  const reader: TreeReader = {
+    getPage: async (id) => ({
+      object: 'page',
+      id,
+      last_edited_time: EDITED,
+      properties: { title: { id: 'title', type: 'title', title: [{ plain_text: 'Root' }] } },
+    }) as any,
+    listChildren: async (id) => {
+      listed.push(id);
+      return children[id] ?? [];
+    },
+  };
+
+  const shape = (node: TreeNode): unknown => [node.id, node.type, node.children.map(shape)];
+
+  it('should stop at the depth limit and keep databases as leaves', async () => {
+    listed.length = 0;
+    const root = await fetchPageTree('root', 2, undefined, undefined, reader);
+
+    expect(shape(root)).toEqual(['root', 'page', [
+      ['a', 'page', [['a1', 'page', []]]],
+      ['db', 'database', []],
+    ]]);
+    expect(root.children[1].title).toBe('DB');
+    expect(listed).toEqual(['root', 'a', 'cols', 'col']);
+  });
+
+  it('should skip archived and trashed sub-pages', async () => {
+    const root = await fetchPageTree('root', 1, undefined, undefined, reader);
+    expect(root.children.map((child) => child.id)).toEqual(['a', 'db']);
+  });
+
+  it('should not list children at depth 0', async () => {
+    listed.length = 0;
+    const root = await fetchPageTree('root', 0, undefined, undefined, reader);
+    expect(root.children).toEqual([]);
+    expect(listed).toEqual([]);
+  });
+});
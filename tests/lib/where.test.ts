@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { compileWhere, findUserReferences, parseWhere, WhereSyntaxError } from '../../src/lib/where.js';
+
+const USER_ID = '11111111-1111-1111-1111-111111111111';
+const PAGE_ID = '22222222222222222222222222222222';
+
+const options = (...names: string[]) => names.map((name, i) => ({ id: String(i), name, color: 'default' }));
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Status: { id: 's', name: 'Status', type: 'status', status: { options: options('Todo', 'Done'), groups: [] } },
+  Priority: { id: 'p', name: 'Priority', type: 'number', number: { format: 'number' } },
+  Stage: { id: 'g', name: 'Stage', type: 'select', select: { options: options('Draft', 'Live') } },
+  Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: options('urgent', 'stale') } },
+  'Due Date': { id: 'd', name: 'Due Date', type: 'date', date: {} },
+  Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+  Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  Blocks: { id: 'r', name: 'Blocks', type: 'relation', relation: { database_id: 'db', type: 'single_property' } },
+  Score: { id: 'f', name: 'Score', type: 'formula', formula: { expression: '' } },
+  Total: { id: 'u', name: 'Total', type: 'rollup', rollup: {} },
+  Ticket: { id: 'i', name: 'Ticket', type: 'unique_id', unique_id: { prefix: 'TASK' } },
+} as any;
+
+const now = new Date(2026, 9, 19, 12);
+const compile = (expression: string, users?: Map<string, string>) => compileWhere(expression, schema, { now, users });
+
+const errorOf = (expression: string): WhereSyntaxError => {
+  try {
+    compile(expression);
+  } catch (error) {
+    if (error instanceof WhereSyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`"${expression}" compiled without an error`);
+};
+
+describe('compileWhere', () => {
+  it('should compile a single condition without a group', () => {
+    expect(compile('Status = "Done"')).toEqual({ property: 'Status', status: { equals: 'Done' } });
+  });
+
+  it('should compile nested and/or groups', () => {
+    expect(compile('Status = "Done" and (Priority >= 2 or Tags contains "urgent") and "Due Date" < today')).toEqual({
+      and: [
+        { property: 'Status', status: { equals: 'Done' } },
+        {
+          or: [
+            { property: 'Priority', number: { greater_than_or_equal_to: 2 } },
+            { property: 'Tags', multi_select: { contains: 'urgent' } },
+          ],
+        },
+        { property: 'Due Date', date: { before: '2026-10-19' } },
+      ],
+    });
+  });
+
+  it('should flatten groups with the same operator', () => {
+    expect(compile('Done = true and (Priority > 1 and Priority < 5)')).toEqual({
+      and: [
+        { property: 'Done', checkbox: { equals: true } },
+        { property: 'Priority', number: { greater_than: 1 } },
+        { property: 'Priority', number: { less_than: 5 } },
+      ],
+    });
+  });
+
+  it('should bind and tighter than or', () => {
+    expect(compile('Done = true or Priority = 1 and Stage = Live')).toEqual({
+      or: [
+        { property: 'Done', checkbox: { equals: true } },
+        {
+          and: [
+            { property: 'Priority', number: { equals: 1 } },
+            { property: 'Stage', select: { equals: 'Live' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should match property names and options case-insensitively', () => {
+    expect(compile('stage != draft')).toEqual({ property: 'Stage', select: { does_not_equal: 'Draft' } });
+  });
+
+  it('should compile text operators', () => {
+    expect(compile('Name starts with "Q3"')).toEqual({ property: 'Name', title: { starts_with: 'Q3' } });
+    expect(compile('Name not contains draft')).toEqual({ property: 'Name', title: { does_not_contain: 'draft' } });
+  });
+
+  it('should compile emptiness checks', () => {
+    expect(compile('`Due Date` is empty')).toEqual({ property: 'Due Date', date: { is_empty: true } });
+    expect(compile('Owner is not empty')).toEqual({ property: 'Owner', people: { is_not_empty: true } });
+  });
+
+  it('should resolve relative and absolute dates', () => {
+    expect(compile('"Due Date" >= today-7')).toEqual({ property: 'Due Date', date: { on_or_after: '2026-10-12' } });
+    expect(compile('"Due Date" <= tomorrow')).toEqual({ property: 'Due Date', date: { on_or_before: '2026-10-20' } });
+    expect(compile('"Due Date" = 2026-11-01')).toEqual({ property: 'Due Date', date: { equals: '2026-11-01' } });
+  });
+
+  it('should resolve people and relations', () => {
+    const users = new Map([['ada@example.com', USER_ID]]);
+    expect(compile('Owner contains "ada@example.com"', users)).toEqual({ property: 'Owner', people: { contains: USER_ID } });
+    expect(compile(`Blocks contains "${PAGE_ID}"`)).toEqual({
+      property: 'Blocks',
+      relation: { contains: PAGE_ID },
+    });
+  });
+
+  it('should pick the formula and rollup type from the value', () => {
+    expect(compile('Score > 3')).toEqual({ property: 'Score', formula: { number: { greater_than: 3 } } });
+    expect(compile('Score = true')).toEqual({ property: 'Score', formula: { checkbox: { equals: true } } });
+    expect(compile('Score contains "x"')).toEqual({ property: 'Score', formula: { string: { contains: 'x' } } });
+    expect(compile('Total >= 10')).toEqual({ property: 'Total', rollup: { number: { greater_than_or_equal_to: 10 } } });
+    expect(compile('Total contains "x"')).toEqual({ property: 'Total', rollup: { any: { rich_text: { contains: 'x' } } } });
+  });
+
+  it('should accept prefixed unique IDs', () => {
+    expect(compile('Ticket = "TASK-12"')).toEqual({ property: 'Ticket', unique_id: { equals: 12 } });
+  });
+});
+
+describe('compileWhere errors', () => {
+  it('should point at an unknown property', () => {
+    const error = errorOf('Status = Done and Stauts = Todo');
+    expect(error.start).toBe(18);
+    expect(error.end).toBe(24);
+    expect(error.message).toContain('Unknown property "Stauts"');
+    expect(error.message).toContain('\n  Status = Done and Stauts = Todo\n                    ^^^^^^');
+  });
+
+  it('should point at an unknown option', () => {
+    const error = errorOf('Status = "Doing"');
+    expect(error.start).toBe(9);
+    expect(error.message).toContain('Options: Todo, Done');
+  });
+
+  it('should reject operators that do not fit the property type', () => {
+    const error = errorOf('Tags = urgent');
+    expect(error.start).toBe(5);
+    expect(error.message).toContain('"=" does not work on multi_select property "Tags"');
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(errorOf('Priority > high').message).toContain('Expected a number');
+    expect(errorOf('Done = yes').message).toContain('Expected true or false');
+    expect(errorOf('"Due Date" < soon').message).toContain('Expected a date');
+    expect(errorOf('Blocks contains "Launch"').message).toContain('matched by page ID');
+    expect(errorOf('Owner contains "nobody"').message).toContain('No user matches "nobody"');
+  });
+
+  it('should report syntax errors', () => {
+    expect(errorOf('Status = "Done').message).toContain('Unterminated string');
+    expect(errorOf('(Status = Done').message).toContain('Expected ")"');
+    expect(errorOf('Status = Done)').message).toContain('Unmatched ")"');
+    expect(errorOf('Status Done').message).toContain('Expected an operator');
+    expect(errorOf('Status =').message).toContain('Expected a value');
+    expect(errorOf('Status = Done Priority = 1').message).toContain('Expected "and" or "or"');
+    expect(errorOf('').message).toContain('Empty --where expression');
+  });
+
+  it('should reject groups nested too deeply', () => {
+    const error = errorOf('Done = true and (Priority = 1 or (Priority = 2 and (Stage = Live or Stage = Draft)))');
+    expect(error.start).toBe(51);
+    expect(error.message).toContain('nest and/or groups 2 levels deep');
+  });
+});
+
+describe('findUserReferences', () => {
+  it('should list people values that are not user IDs', () => {
+    const node = parseWhere(`Owner contains "Ada" or Owner contains "${USER_ID}" or Name contains "Bob"`);
+    expect(findUserReferences(node, schema)).toEqual(['Ada']);
+  });
+});